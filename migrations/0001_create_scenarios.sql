@@ -0,0 +1,10 @@
+-- Saved calculator scenarios: the MortgageCalculation input and a MortgageResult snapshot, both as JSON
+CREATE TABLE scenarios (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  input TEXT NOT NULL,
+  result TEXT NOT NULL,
+  created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_scenarios_created_at ON scenarios (created_at);
@@ -0,0 +1,10 @@
+-- Published market datasets (MarketData as JSON). The newest dataset whose effective
+-- date has arrived is the one in use; when none has been published the bundled defaults apply.
+CREATE TABLE market_data (
+  version INTEGER PRIMARY KEY AUTOINCREMENT,
+  effective_date TEXT NOT NULL,
+  data TEXT NOT NULL,
+  published_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_market_data_effective_date ON market_data (effective_date);
@@ -0,0 +1,5 @@
+-- SHA-256 of the random owner token the saving browser keeps; only that browser can list or delete
+-- the scenario, while anyone with its link can still open it. Rows saved before this have no owner.
+ALTER TABLE scenarios ADD COLUMN owner_token_hash TEXT;
+
+CREATE INDEX idx_scenarios_owner_token_hash ON scenarios (owner_token_hash, created_at);
@@ -1,17 +1,24 @@
 import { BrowserRouter as Router, Routes, Route } from "react-router";
 import HomePage from "@/react-app/pages/Home";
+import SharedScenarioPage from "@/react-app/pages/SharedScenario";
+import RentVsBuyPage from "@/react-app/pages/RentVsBuy";
 import { ThemeProvider } from "@/react-app/hooks/useTheme";
+import { MarketDataProvider } from "@/react-app/hooks/useMarketData";
 import ThemeToggle from "@/react-app/components/ThemeToggle";
 
 export default function App() {
   return (
     <ThemeProvider>
-      <Router>
-        <ThemeToggle />
-        <Routes>
-          <Route path="/" element={<HomePage />} />
-        </Routes>
-      </Router>
+      <MarketDataProvider>
+        <Router>
+          <ThemeToggle />
+          <Routes>
+            <Route path="/" element={<HomePage />} />
+            <Route path="/s/:id" element={<SharedScenarioPage />} />
+            <Route path="/rent-vs-buy" element={<RentVsBuyPage />} />
+          </Routes>
+        </Router>
+      </MarketDataProvider>
     </ThemeProvider>
   );
 }
@@ -0,0 +1,8 @@
+// Throw the worker's error message for non-2xx responses
+export async function ensureOk(response: Response): Promise<Response> {
+  if (!response.ok) {
+    const body = await response.json().catch(() => null) as { error?: string } | null;
+    throw new Error(body?.error ?? `Request failed with status ${response.status}`);
+  }
+  return response;
+}
@@ -0,0 +1,9 @@
+import { MarketDataSchema } from "@/shared/types";
+import type { MarketData } from "@/shared/types";
+import { ensureOk } from "./http";
+
+// Market dataset currently in effect
+export async function fetchMarketData(): Promise<MarketData> {
+  const response = await ensureOk(await fetch("/api/rates"));
+  return MarketDataSchema.parse(await response.json());
+}
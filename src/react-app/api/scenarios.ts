@@ -0,0 +1,53 @@
+import { SavedScenarioSchema, ScenarioSummarySchema } from "@/shared/types";
+import type { MortgageCalculation, SavedScenario, ScenarioSummary } from "@/shared/types";
+import { ensureOk } from "./http";
+
+const ownerTokenKey = "scenarioOwnerToken";
+
+// Random token identifying this browser as the owner of the scenarios it saves; only the owner
+// can list or delete them, while anyone with a scenario's link can open it
+function getOwnerToken(): string {
+  let token = localStorage.getItem(ownerTokenKey);
+  if (!token) {
+    token = crypto.randomUUID();
+    localStorage.setItem(ownerTokenKey, token);
+  }
+  return token;
+}
+
+// Validate the scenario input; the result is a save-time snapshot and may predate newer result fields
+function parseSavedScenario(data: unknown): SavedScenario {
+  const { result, ...scenario } = data as SavedScenario;
+  return { ...SavedScenarioSchema.omit({ result: true }).parse(scenario), result };
+}
+
+export async function createScenario(name: string, input: MortgageCalculation): Promise<SavedScenario> {
+  const response = await ensureOk(await fetch("/api/scenarios", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "X-Scenario-Owner": getOwnerToken() },
+    body: JSON.stringify({ name, input }),
+  }));
+  return parseSavedScenario(await response.json());
+}
+
+export async function fetchScenario(id: string): Promise<SavedScenario> {
+  const response = await ensureOk(await fetch(`/api/scenarios/${encodeURIComponent(id)}`));
+  return parseSavedScenario(await response.json());
+}
+
+export async function listScenarios(): Promise<ScenarioSummary[]> {
+  const response = await ensureOk(await fetch("/api/scenarios", { headers: { "X-Scenario-Owner": getOwnerToken() } }));
+  return ScenarioSummarySchema.array().parse(await response.json());
+}
+
+export async function deleteScenario(id: string): Promise<void> {
+  await ensureOk(await fetch(`/api/scenarios/${encodeURIComponent(id)}`, {
+    method: "DELETE",
+    headers: { "X-Scenario-Owner": getOwnerToken() },
+  }));
+}
+
+// Shareable link that opens a saved scenario in the calculator
+export function getScenarioShareUrl(id: string): string {
+  return `${window.location.origin}/s/${id}`;
+}
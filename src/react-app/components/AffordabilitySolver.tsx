@@ -0,0 +1,209 @@
+import { useState } from "react";
+import { ArrowRight, Target } from "lucide-react";
+import { formatCurrency } from "@/shared/formatters";
+import { cmhcRatioLimits } from "@/shared/affordability";
+import { MortgageRulesError, mortgageInsuranceRules } from "@/shared/cmhcInsurance";
+import { findMaxPurchasePrice } from "@/shared/maxPurchasePrice";
+import { validateMortgageCalculation } from "@/shared/mortgageCalculator";
+import type { ValidationIssue } from "@/shared/validation";
+import type { AffordabilityConstraint, MaxPurchasePrice } from "@/shared/maxPurchasePrice";
+import type { MortgageCalculation } from "@/shared/types";
+import { useMarketData } from "@/react-app/hooks/useMarketData";
+
+const constraintDescriptions: Record<AffordabilityConstraint, string> = {
+    gds: `Housing costs reach the ${cmhcRatioLimits.gds}% GDS limit at the stress test rate.`,
+    tds: `Housing costs plus your other debts reach the ${cmhcRatioLimits.tds}% TDS limit at the stress test rate.`,
+    "down-payment": "Your down payment is the limit: a higher price would need a larger minimum down payment.",
+    "insured-amortization": `Insured amortizations over ${mortgageInsuranceRules.standardMaxAmortization} years are only for first-time buyers, so this price keeps you at 20% down.`,
+};
+
+const constraintLabels: Record<AffordabilityConstraint, string> = {
+    gds: "GDS limit",
+    tds: "TDS limit",
+    "down-payment": "Minimum down payment",
+    "insured-amortization": "Amortization rules",
+};
+
+export default function AffordabilitySolver({ baseScenario, onApply }: { baseScenario: MortgageCalculation; onApply: (data: MortgageCalculation) => void }) {
+    const [data, setData] = useState<MortgageCalculation>(baseScenario);
+    const [solution, setSolution] = useState<MaxPurchasePrice | null>(null);
+    const [issues, setIssues] = useState<ValidationIssue[]>([]);
+    const { marketData } = useMarketData();
+
+    const updateField = (field: keyof MortgageCalculation, value: number | boolean) => {
+        setData(prev => ({ ...prev, [field]: value }));
+    };
+
+    const handleSolve = () => {
+        // The solver picks the price, so the inputs are checked as a cash purchase (price equal to the down
+        // payment) where no price-dependent rule applies; a price issue then only means there is no down payment
+        const validation = validateMortgageCalculation({ ...data, propertyValue: data.downPayment, assessedValue: undefined });
+        if (!validation.success) {
+            setIssues(validation.issues.map(issue => issue.field === "propertyValue"
+                ? { field: "downPayment", message: "Enter the down payment you have available" }
+                : issue));
+            setSolution(null);
+            return;
+        }
+
+        try {
+            setSolution(findMaxPurchasePrice(data, marketData));
+            setIssues([]);
+        } catch (err) {
+            if (!(err instanceof MortgageRulesError)) throw err;
+            setIssues(err.issues);
+            setSolution(null);
+        }
+    };
+
+    const inputClassName = "w-full px-4 py-3 border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 shadow-sm";
+    const labelClassName = "block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2";
+
+    const numberFields: { field: keyof MortgageCalculation; label: string; step?: string }[] = [
+        { field: "grossAnnualIncome", label: "Gross Household Income (Annual)" },
+        { field: "downPayment", label: "Available Down Payment" },
+        { field: "interestRate", label: "Interest Rate (%)", step: "0.01" },
+        { field: "monthlyCarLoanPayments", label: "Car Loans (Monthly)" },
+        { field: "monthlyCreditCardPayments", label: "Credit Cards (Monthly)" },
+        { field: "monthlySupportPayments", label: "Support Payments (Monthly)" },
+        { field: "monthlyOtherDebtPayments", label: "Other Debts (Monthly)" },
+    ];
+
+    // Issues for inputs on this form show beside them (first one per field); the rest, such as a school
+    // division carried over from the calculator, are listed under the button
+    const formFields = new Set<string>([...numberFields.map(({ field }) => field), "amortizationYears"]);
+    const fieldErrors: Record<string, string> = {};
+    for (const issue of issues) {
+        if (formFields.has(issue.field) && !(issue.field in fieldErrors)) fieldErrors[issue.field] = issue.message;
+    }
+    const otherIssues = issues.filter(issue => !formFields.has(issue.field));
+
+    return (
+        <div className="grid lg:grid-cols-2 gap-8">
+            <div className="bg-white dark:bg-gray-800 rounded-3xl shadow-xl border border-gray-100 dark:border-gray-700 p-8">
+                <div className="flex items-center gap-3 mb-2">
+                    <Target className="w-6 h-6 text-blue-600" />
+                    <h2 className="text-2xl font-bold text-gray-800 dark:text-gray-100">How Much Can I Afford?</h2>
+                </div>
+                <p className="text-sm text-gray-500 dark:text-gray-400 mb-6">
+                    Finds the highest purchase price that passes the stress-tested GDS/TDS limits and the minimum down payment rules.
+                </p>
+
+                <div className="grid sm:grid-cols-2 gap-4">
+                    {numberFields.map(({ field, label, step }) => (
+                        <div key={field}>
+                            <label className={labelClassName}>{label}</label>
+                            <input
+                                type="number"
+                                step={step}
+                                value={data[field] as number}
+                                onChange={(e) => updateField(field, parseFloat(e.target.value) || 0)}
+                                className={inputClassName}
+                            />
+                            {fieldErrors[field] && (
+                                <p className="text-xs text-red-600 dark:text-red-400 mt-1">{fieldErrors[field]}</p>
+                            )}
+                        </div>
+                    ))}
+                    <div>
+                        <label className={labelClassName}>Amortization (Years)</label>
+                        <select
+                            value={data.amortizationYears}
+                            onChange={(e) => updateField('amortizationYears', parseInt(e.target.value))}
+                            className={`${inputClassName} appearance-none bg-white`}
+                        >
+                            {[15, 20, 25, 30, 35].map(years => (
+                                <option key={years} value={years}>{years} years</option>
+                            ))}
+                        </select>
+                        {fieldErrors.amortizationYears && (
+                            <p className="text-xs text-red-600 dark:text-red-400 mt-1">{fieldErrors.amortizationYears}</p>
+                        )}
+                    </div>
+                </div>
+
+                <div className="flex items-center gap-3 mt-4">
+                    <input
+                        type="checkbox"
+                        id="solverFirstTimeBuyer"
+                        checked={data.isFirstTimeBuyer}
+                        onChange={(e) => updateField('isFirstTimeBuyer', e.target.checked)}
+                        className="w-5 h-5 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                    />
+                    <label htmlFor="solverFirstTimeBuyer" className="text-sm font-semibold text-gray-700 dark:text-gray-300">
+                        First-time home buyer
+                    </label>
+                </div>
+
+                <button
+                    onClick={handleSolve}
+                    className="w-full mt-6 bg-gradient-to-r from-blue-600 to-indigo-600 dark:from-blue-500 dark:to-indigo-500 text-white py-4 px-6 rounded-xl font-semibold text-lg hover:from-blue-700 hover:to-indigo-700 transition-all duration-200 shadow-lg hover:shadow-xl"
+                >
+                    Find My Maximum Price
+                </button>
+
+                {otherIssues.length > 0 && (
+                    <ul className="mt-4 p-4 space-y-1 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl text-sm text-red-600 dark:text-red-400">
+                        {otherIssues.map((issue, index) => (
+                            <li key={index}>{issue.message}</li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+
+            <div className="bg-white dark:bg-gray-800 rounded-3xl shadow-xl border border-gray-100 dark:border-gray-700 p-8">
+                {!solution && (
+                    <p className="text-gray-500 dark:text-gray-400">
+                        Enter your income, debts and savings to see the most you can spend on a home.
+                    </p>
+                )}
+
+                {solution && (
+                    <div className="space-y-6">
+                        <div>
+                            <p className="text-sm font-semibold text-gray-500 dark:text-gray-400">Maximum Purchase Price</p>
+                            <p className="text-4xl font-bold text-blue-600 dark:text-blue-400">{formatCurrency(solution.maxPropertyValue)}</p>
+                        </div>
+
+                        <div className="p-4 rounded-xl bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800">
+                            <p className="text-sm font-semibold text-blue-800 dark:text-blue-300">
+                                Limited by: {constraintLabels[solution.bindingConstraint]}
+                            </p>
+                            <p className="text-sm text-blue-700 dark:text-blue-400 mt-1">
+                                {solution.result ? constraintDescriptions[solution.bindingConstraint] : "No purchase qualifies with these inputs."}
+                            </p>
+                        </div>
+
+                        {solution.result && (
+                            <>
+                                <div className="space-y-3">
+                                    {[
+                                        { label: "Mortgage Amount", value: formatCurrency(solution.mortgageAmount) },
+                                        { label: "Mortgage Insurance", value: formatCurrency(solution.result.cmhcInsurance) },
+                                        { label: "Monthly Payment", value: formatCurrency(solution.result.monthlyPayment) },
+                                        { label: "Total Monthly Cost", value: formatCurrency(solution.result.totalMonthlyCost) },
+                                        { label: `GDS / TDS at ${solution.result.stressTest.qualifyingRate}%`, value: `${solution.result.stressTest.debtServiceRatios.gds}% / ${solution.result.stressTest.debtServiceRatios.tds}%` },
+                                        { label: "Cash Needed at Closing", value: formatCurrency(solution.result.closingCosts.cashNeededAtClosing) },
+                                    ].map(item => (
+                                        <div key={item.label} className="flex justify-between">
+                                            <span className="text-gray-600 dark:text-gray-400">{item.label}</span>
+                                            <span className="font-semibold dark:text-gray-100">{item.value}</span>
+                                        </div>
+                                    ))}
+                                </div>
+
+                                <button
+                                    onClick={() => onApply({ ...data, propertyValue: solution.maxPropertyValue })}
+                                    className="w-full flex items-center justify-center gap-2 py-3 px-6 rounded-xl font-semibold bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600 transition-all duration-200"
+                                >
+                                    Open in Calculator
+                                    <ArrowRight className="w-4 h-4" />
+                                </button>
+                            </>
+                        )}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,89 @@
+import { useState } from "react";
+import { ChevronDown, ChevronRight, Table } from "lucide-react";
+import { formatCurrency } from "@/shared/formatters";
+import type { AmortizationSchedule } from "@/shared/types";
+
+export default function AmortizationTable({ schedule }: { schedule: AmortizationSchedule }) {
+    const [isOpen, setIsOpen] = useState(false);
+    const [expandedYears, setExpandedYears] = useState<number[]>([]);
+
+    const toggleYear = (year: number) => {
+        setExpandedYears(prev => prev.includes(year) ? prev.filter(y => y !== year) : [...prev, year]);
+    };
+
+    return (
+        <div className="bg-white dark:bg-gray-800 rounded-3xl shadow-xl border border-gray-100 dark:border-gray-700 p-8">
+            <button
+                type="button"
+                onClick={() => setIsOpen(prev => !prev)}
+                className="w-full flex items-center justify-between text-left"
+                aria-expanded={isOpen}
+            >
+                <span className="flex items-center gap-3">
+                    <Table className="w-6 h-6 text-blue-600" />
+                    <span className="text-xl font-bold text-gray-800 dark:text-gray-100">Amortization Schedule</span>
+                </span>
+                <span className="flex items-center gap-2 text-sm font-medium text-blue-600 dark:text-blue-400">
+                    {isOpen ? "Hide" : "Show"} {schedule.payments.length} payments
+                    {isOpen ? <ChevronDown className="w-5 h-5" /> : <ChevronRight className="w-5 h-5" />}
+                </span>
+            </button>
+
+            {isOpen && (
+                <div className="mt-6 overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-left text-gray-600 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                                <th className="py-2 pr-4 font-semibold">Year / #</th>
+                                <th className="py-2 pr-4 font-semibold">Date</th>
+                                <th className="py-2 pr-4 font-semibold text-right">Payment</th>
+                                <th className="py-2 pr-4 font-semibold text-right">Interest</th>
+                                <th className="py-2 pr-4 font-semibold text-right">Principal</th>
+                                <th className="py-2 pr-4 font-semibold text-right">Prepayment</th>
+                                <th className="py-2 font-semibold text-right">Balance</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {schedule.yearlySummaries.map(summary => {
+                                const isExpanded = expandedYears.includes(summary.year);
+                                const yearPayments = schedule.payments.filter(payment => payment.year === summary.year);
+
+                                return [
+                                    <tr
+                                        key={`year-${summary.year}`}
+                                        onClick={() => toggleYear(summary.year)}
+                                        className="cursor-pointer font-semibold text-gray-800 dark:text-gray-100 bg-gray-50 dark:bg-gray-700/50 hover:bg-blue-50 dark:hover:bg-gray-700 border-b border-gray-100 dark:border-gray-700"
+                                    >
+                                        <td className="py-2 pr-4">
+                                            <span className="flex items-center gap-1">
+                                                {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                                                Year {summary.year}
+                                            </span>
+                                        </td>
+                                        <td className="py-2 pr-4">{yearPayments[0]?.date.slice(0, 7)}</td>
+                                        <td className="py-2 pr-4 text-right">{formatCurrency(summary.totalPaid)}</td>
+                                        <td className="py-2 pr-4 text-right">{formatCurrency(summary.totalInterest)}</td>
+                                        <td className="py-2 pr-4 text-right">{formatCurrency(summary.totalPrincipal)}</td>
+                                        <td className="py-2 pr-4 text-right">{formatCurrency(summary.totalPrepayment)}</td>
+                                        <td className="py-2 text-right">{formatCurrency(summary.endingBalance)}</td>
+                                    </tr>,
+                                    ...(isExpanded ? yearPayments.map(payment => (
+                                        <tr key={`payment-${payment.paymentNumber}`} className="text-gray-600 dark:text-gray-300 border-b border-gray-50 dark:border-gray-700/50">
+                                            <td className="py-1.5 pr-4 pl-6">{payment.paymentNumber}</td>
+                                            <td className="py-1.5 pr-4">{payment.date}</td>
+                                            <td className="py-1.5 pr-4 text-right">{formatCurrency(payment.payment)}</td>
+                                            <td className="py-1.5 pr-4 text-right">{formatCurrency(payment.interest)}</td>
+                                            <td className="py-1.5 pr-4 text-right">{formatCurrency(payment.principal)}</td>
+                                            <td className="py-1.5 pr-4 text-right">{formatCurrency(payment.prepayment)}</td>
+                                            <td className="py-1.5 text-right">{formatCurrency(payment.balance)}</td>
+                                        </tr>
+                                    )) : []),
+                                ];
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+}
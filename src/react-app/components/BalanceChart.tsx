@@ -0,0 +1,49 @@
+import { formatCurrency } from "@/shared/formatters";
+import type { AmortizationYearSummary } from "@/shared/types";
+
+export default function BalanceChart({ startingBalance, data }: { startingBalance: number; data: AmortizationYearSummary[] }) {
+    const width = 300;
+    const height = 180;
+    const padding = { top: 10, right: 10, bottom: 24, left: 10 };
+    const chartWidth = width - padding.left - padding.right;
+    const chartHeight = height - padding.top - padding.bottom;
+
+    // Year 0 is the opening balance, followed by the balance at the end of each loan year
+    const points = [{ year: 0, balance: startingBalance }, ...data.map(item => ({ year: item.year, balance: item.endingBalance }))];
+    const maxYear = Math.max(points[points.length - 1].year, 1);
+    const maxBalance = Math.max(startingBalance, 1);
+
+    const toX = (year: number) => padding.left + (year / maxYear) * chartWidth;
+    const toY = (balance: number) => padding.top + chartHeight - (balance / maxBalance) * chartHeight;
+
+    const linePath = points.map((point, i) => `${i === 0 ? "M" : "L"}${toX(point.year)},${toY(point.balance)}`).join(" ");
+    const areaPath = `${linePath} L${toX(maxYear)},${toY(0)} L${toX(0)},${toY(0)} Z`;
+    const tickYears = points.filter(point => point.year % 5 === 0 || point.year === maxYear);
+
+    return (
+        <div className="w-full mx-auto mb-8">
+            <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-64">
+                <defs>
+                    <linearGradient id="balanceFill" x1="0" y1="0" x2="0" y2="1">
+                        <stop offset="0%" stopColor="#2563eb" stopOpacity="0.35" />
+                        <stop offset="100%" stopColor="#2563eb" stopOpacity="0" />
+                    </linearGradient>
+                </defs>
+                <line x1={toX(0)} y1={toY(0)} x2={toX(maxYear)} y2={toY(0)} className="stroke-gray-300 dark:stroke-gray-600" strokeWidth="1" />
+                <path d={areaPath} fill="url(#balanceFill)" />
+                <path d={linePath} fill="none" stroke="#2563eb" strokeWidth="2" strokeLinejoin="round" />
+                {points.map(point => (
+                    <circle key={point.year} cx={toX(point.year)} cy={toY(point.balance)} r="3" fill="#2563eb" className="opacity-0 hover:opacity-100 cursor-pointer">
+                        <title>Year {point.year}: {formatCurrency(point.balance)}</title>
+                    </circle>
+                ))}
+                {tickYears.map(point => (
+                    <text key={point.year} x={toX(point.year)} y={height - 6} textAnchor="middle" className="fill-gray-500 dark:fill-gray-400" fontSize="9">
+                        {point.year === 0 ? "Start" : `Yr ${point.year}`}
+                    </text>
+                ))}
+            </svg>
+            <p className="text-center text-xs text-gray-500 dark:text-gray-400 font-medium">Remaining balance over time</p>
+        </div>
+    );
+}
@@ -0,0 +1,58 @@
+// Shown under the calculator and at the end of the printed report
+export default function Disclaimer() {
+    return (
+        <div className="bg-gray-50 dark:bg-gray-800 rounded-3xl p-8 border border-gray-200 dark:border-gray-700">
+            <div className="max-w-4xl mx-auto">
+                <h3 className="text-lg font-bold text-gray-800 dark:text-gray-100 mb-4 text-center">Important Disclaimer</h3>
+                <div className="space-y-4 text-sm text-gray-600 dark:text-gray-300 leading-relaxed">
+                    <p>
+                        <strong>Not Financial Advice:</strong> This calculator provides estimates only and should not be considered as financial, legal, or tax advice.
+                        All calculations are for informational purposes and are not a guarantee of loan approval or final mortgage terms.
+                    </p>
+
+                    <p>
+                        <strong>Accuracy of Information:</strong> While we strive to use current Winnipeg market data, interest rates, property tax rates,
+                        insurance costs, and utility estimates may vary significantly based on specific properties, lenders, and individual circumstances.
+                        Actual costs may be higher or lower than estimated.
+                    </p>
+
+                    <p>
+                        <strong>Rate Fluctuations:</strong> Interest rates change frequently and may differ substantially from those shown.
+                        Mortgage rates depend on credit score, debt-to-income ratio, employment history, down payment amount, and other factors
+                        not considered in this calculator.
+                    </p>
+
+                    <p>
+                        <strong>Regional Specificity:</strong> This calculator is designed for Winnipeg and nearby Manitoba communities. Tax rates, insurance costs,
+                        and utility estimates are based on local averages and may not apply to other municipalities or provinces.
+                    </p>
+
+                    <p>
+                        <strong>Additional Costs:</strong> Homeownership involves additional costs not included in these calculations, such as
+                        legal fees, home inspection fees, moving costs, maintenance, repairs, condo fees, special assessments,
+                        and potential mortgage default insurance premiums that may vary.
+                    </p>
+
+                    <p>
+                        <strong>Professional Consultation Required:</strong> Before making any financial decisions, consult with qualified professionals
+                        including mortgage brokers, financial advisors, real estate agents, lawyers, and tax professionals who can provide
+                        personalized advice based on your specific situation.
+                    </p>
+
+                    <p>
+                        <strong>Limitation of Liability:</strong> Prairie Home Calculator and its creators disclaim all liability for any financial
+                        decisions made based on information provided by this tool. Users assume full responsibility for verifying all information
+                        and seeking appropriate professional advice.
+                    </p>
+
+                    <p className="text-center font-medium text-gray-700 dark:text-gray-300 pt-4 border-t border-gray-300 dark:border-gray-600">
+                        Last updated: February 16, 2026 | For educational purposes only | © 2026 Prairie Home Calculator | All rights reserved.
+                    </p>
+
+                    <p className="text-center font-medium text-gray-700 dark:text-gray-300 pt-4 border-t border-gray-300 dark:border-gray-600">This calculator is not intended to be used for tax planning or financial advice.
+                    </p>
+                </div>
+            </div>
+        </div>
+    );
+}
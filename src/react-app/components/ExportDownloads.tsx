@@ -0,0 +1,64 @@
+import { Download, FileJson, FileSpreadsheet } from "lucide-react";
+import type { AmortizationSchedule, MortgageCalculation, MortgageResult } from "@/shared/types";
+import { amortizationScheduleToCsv, createCalculationExport } from "@/shared/calculationExport";
+
+// Save generated text through a temporary object URL; nothing leaves the browser
+function downloadFile(filename: string, contents: string, type: string) {
+    const url = URL.createObjectURL(new Blob([contents], { type }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = filename;
+    link.click();
+    // Revoke once the click has been handled; revoking right away can cancel the download in some browsers
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export default function ExportDownloads({ inputs, result, schedule }: {
+    inputs: MortgageCalculation;
+    result: MortgageResult;
+    schedule: AmortizationSchedule | null;
+}) {
+    const today = new Date().toISOString().slice(0, 10);
+
+    const handleExportJson = () => {
+        const calculation = createCalculationExport(inputs, result);
+        downloadFile(`mortgage-calculation-${today}.json`, JSON.stringify(calculation, null, 2), "application/json");
+    };
+
+    const handleExportCsv = () => {
+        if (!schedule) return;
+        downloadFile(`amortization-schedule-${today}.csv`, amortizationScheduleToCsv(schedule), "text/csv");
+    };
+
+    return (
+        <div className="bg-white dark:bg-gray-800 rounded-3xl shadow-xl border border-gray-100 dark:border-gray-700 p-8">
+            <div className="flex items-center gap-3 mb-2">
+                <Download className="w-6 h-6 text-blue-600" />
+                <h3 className="text-xl font-bold text-gray-800 dark:text-gray-100">Export</h3>
+            </div>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-6">
+                Download the payment schedule for a spreadsheet, or the full calculation to import again later.
+            </p>
+
+            <div className="grid sm:grid-cols-2 gap-3">
+                <button
+                    type="button"
+                    onClick={handleExportCsv}
+                    disabled={!schedule}
+                    className="flex items-center justify-center gap-2 px-4 py-3 text-sm font-semibold text-blue-600 dark:text-blue-400 border border-blue-200 dark:border-blue-800 rounded-xl hover:bg-blue-50 dark:hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    <FileSpreadsheet className="w-4 h-4" />
+                    Schedule (CSV)
+                </button>
+                <button
+                    type="button"
+                    onClick={handleExportJson}
+                    className="flex items-center justify-center gap-2 px-4 py-3 text-sm font-semibold text-blue-600 dark:text-blue-400 border border-blue-200 dark:border-blue-800 rounded-xl hover:bg-blue-50 dark:hover:bg-gray-700 transition-colors"
+                >
+                    <FileJson className="w-4 h-4" />
+                    Calculation (JSON)
+                </button>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,51 @@
+import { CalendarClock } from "lucide-react";
+import { formatCurrency } from "@/shared/formatters";
+import { paymentFrequencies } from "@/shared/paymentFrequency";
+import type { PaymentFrequency, PaymentFrequencyComparison } from "@/shared/types";
+
+export default function FrequencyComparison({ comparison, selected }: { comparison: PaymentFrequencyComparison[]; selected: PaymentFrequency }) {
+    const lowestInterest = Math.min(...comparison.map(item => item.totalInterest));
+
+    return (
+        <div className="bg-white dark:bg-gray-800 rounded-3xl shadow-xl border border-gray-100 dark:border-gray-700 p-8">
+            <div className="flex items-center gap-3 mb-6">
+                <CalendarClock className="w-6 h-6 text-blue-600" />
+                <h3 className="text-xl font-bold text-gray-800 dark:text-gray-100">Payment Frequency Comparison</h3>
+            </div>
+
+            <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="text-left text-gray-600 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                            <th className="py-2 pr-4 font-semibold">Frequency</th>
+                            <th className="py-2 pr-4 font-semibold text-right">Payment</th>
+                            <th className="py-2 pr-4 font-semibold text-right">Total Interest</th>
+                            <th className="py-2 font-semibold text-right">Paid Off</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {comparison.map(item => (
+                            <tr
+                                key={item.frequency}
+                                className={`border-b border-gray-100 dark:border-gray-700 ${item.frequency === selected ? 'bg-blue-50 dark:bg-blue-900/20 font-semibold' : ''}`}
+                            >
+                                <td className="py-2 pr-4 text-gray-800 dark:text-gray-100">{paymentFrequencies[item.frequency].label}</td>
+                                <td className="py-2 pr-4 text-right text-gray-800 dark:text-gray-100">{formatCurrency(item.payment)}</td>
+                                <td className={`py-2 pr-4 text-right ${item.totalInterest === lowestInterest ? 'text-green-600 dark:text-green-400' : 'text-gray-800 dark:text-gray-100'}`}>
+                                    {formatCurrency(item.totalInterest)}
+                                </td>
+                                <td className="py-2 text-right text-gray-800 dark:text-gray-100">
+                                    {item.payoffDate.slice(0, 7)}
+                                    <span className="block text-xs font-normal text-gray-500 dark:text-gray-400">{item.yearsToPayoff} yrs</span>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-4">
+                Accelerated payments split the monthly payment in half (bi-weekly) or quarters (weekly), adding one extra monthly payment each year.
+            </p>
+        </div>
+    );
+}
@@ -1,67 +1,250 @@
-import { useState, useEffect } from "react";
-import { Calculator, DollarSign, Percent, Clock, AlertTriangle, CheckCircle, Info, RotateCcw } from "lucide-react";
-import type { MortgageCalculation, MortgageResult } from "../../shared/types";
-import { calculateMortgage, winnipegData } from "../../shared/mortgageCalculator";
+import { useState, useEffect, useMemo } from "react";
+import { Calculator, DollarSign, Percent, Clock, AlertTriangle, CheckCircle, Info, RotateCcw, ShieldCheck, ShieldAlert, Plus, X, Columns3, Target, ArrowRight, Printer, Upload, Repeat } from "lucide-react";
+import { Link, useLocation, useNavigate } from "react-router";
+import type { AmortizationSchedule, MortgageCalculation, MortgageResult } from "../../shared/types";
+import { MortgageCalculationSchema } from "../../shared/types";
+import { calculateMortgage, validateMortgageCalculation } from "../../shared/mortgageCalculator";
+import { generateAmortizationSchedule } from "../../shared/amortization";
 
-import { formatCurrency } from "@/shared/formatters";
+import { formatCurrency, formatDate } from "@/shared/formatters";
 import DonutChart from "./DonutChart";
+import BalanceChart from "./BalanceChart";
+import AmortizationTable from "./AmortizationTable";
+import FrequencyComparison from "./FrequencyComparison";
+import SensitivityHeatmap from "./SensitivityHeatmap";
+import PrepaymentComparison from "./PrepaymentComparison";
+import RenewalScenarios from "./RenewalScenarios";
+import VariableRateDetails from "./VariableRateDetails";
+import SavedScenarios from "./SavedScenarios";
+import ScenarioComparison from "./ScenarioComparison";
+import AffordabilitySolver from "./AffordabilitySolver";
+import RefinanceCalculator from "./RefinanceCalculator";
+import Disclaimer from "./Disclaimer";
+import PrintReport from "./PrintReport";
+import ExportDownloads from "./ExportDownloads";
+import { useMarketData } from "@/react-app/hooks/useMarketData";
+import { paymentFrequencies } from "../../shared/paymentFrequency";
+import { getMinimumDownPayment, MortgageRulesError, mortgageInsurers } from "../../shared/cmhcInsurance";
+import { parseCalculationImportText } from "../../shared/calculationExport";
+import { calculationToSearchParams, parseCalculationSearchParams } from "../../shared/calculationQuery";
+import type { ValidationIssue } from "../../shared/validation";
+import { parseFormValues } from "../../shared/formValues";
+import type { FormValues } from "../../shared/formValues";
 
-export default function MortgageCalculator() {
+// Wait for a pause in typing before recalculating, so results don't churn on every keystroke
+const recalculateDelayMs = 400;
 
+const initialFormData: MortgageCalculation = {
+  propertyValue: 400000,
+  downPayment: 80000,
+  interestRate: 4.84,
+  amortizationYears: 25,
+  termYears: 5,
+  municipality: "winnipeg",
+  propertyType: "single-family",
+  heatingType: "gas",
+  isFirstTimeBuyer: false,
+  mortgageInsurer: "cmhc",
+  compounding: "semi-annual",
+  variablePaymentType: "adjustable",
+  primeRatePath: [],
+  paymentFrequency: "monthly",
+  grossAnnualIncome: 110000,
+  monthlyCondoFees: 0,
+  numberOfUnits: 2,
+  monthlyRentalIncome: 0,
+  monthlyCarLoanPayments: 0,
+  monthlyCreditCardPayments: 0,
+  monthlySupportPayments: 0,
+  monthlyOtherDebtPayments: 0,
+  annualLumpSumPrepayment: 0,
+  prepaymentCapPercent: 15,
+  paymentIncreasePercent: 0,
+  oneTimePrepayments: [],
+  renewalRates: [],
+};
 
-  const initialFormData: MortgageCalculation = {
-    propertyValue: 400000,
-    downPayment: 80000,
-    interestRate: 4.84,
-    amortizationYears: 25,
-    propertyType: "single-family",
-    heatingType: "gas",
-    isFirstTimeBuyer: false,
-  };
+// Inline message under an input; renders nothing when the field is valid
+function FieldError({ message }: { message?: string }) {
+  if (!message) return null;
+  return <p className="text-xs text-red-600 dark:text-red-400 mt-1">{message}</p>;
+}
+
+export default function MortgageCalculator({ initialData, scenarioName, syncWithUrl }: { initialData?: MortgageCalculation; scenarioName?: string; syncWithUrl?: boolean }) {
+  const { marketData } = useMarketData();
+  const location = useLocation();
+  const navigate = useNavigate();
 
-  const [formData, setFormData] = useState<MortgageCalculation>(initialFormData);
 
-  const [result, setResult] = useState<MortgageResult | null>(null);
-  const [loading, setLoading] = useState(false);
+  // With syncWithUrl the inputs are also kept in the query string, so a copied link reopens the same calculation.
+  // Number inputs hold their text as typed; the schema reads it when validating.
+  const [formData, setFormData] = useState<FormValues<MortgageCalculation>>(() => initialData
+    ?? (syncWithUrl ? parseCalculationSearchParams(new URLSearchParams(location.search), initialFormData) : null)
+    ?? initialFormData);
+  // Shared scenarios and linked calculations keep their own rate instead of the market rate
+  const [hasOwnRate] = useState(() => Boolean(initialData) || (Boolean(syncWithUrl) && new URLSearchParams(location.search).has("interestRate")));
+
+  // A shared scenario opens with its results already calculated. One saved before a rule or market data
+  // change may no longer qualify; it opens without results and its issues show beside the fields.
+  const [initialResult] = useState<MortgageResult | null>(() => {
+    if (!initialData) return null;
+    try {
+      return calculateMortgage(initialData, marketData);
+    } catch (err) {
+      if (err instanceof MortgageRulesError) return null;
+      throw err;
+    }
+  });
+  const [result, setResult] = useState<MortgageResult | null>(initialResult);
+  const [schedule, setSchedule] = useState<AmortizationSchedule | null>(() => initialData && initialResult ? generateAmortizationSchedule(initialData) : null);
+  // Inputs behind the current result, so the printed report doesn't pick up later, uncalculated edits
+  const [resultInputs, setResultInputs] = useState<MortgageCalculation | null>(initialResult && initialData ? initialData : null);
   const [error, setError] = useState<string | null>(null);
+  // Rule issues only found while calculating (e.g. a school division outside the municipality)
+  const [calculationIssues, setCalculationIssues] = useState<ValidationIssue[]>([]);
+  const [importIssues, setImportIssues] = useState<ValidationIssue[]>([]);
+  const [mode, setMode] = useState<"calculate" | "compare" | "afford" | "refinance">("calculate");
 
-  // Set initial interest rate from Winnipeg data
+  // Set initial interest rate from the market dataset once it loads
+  const currentFixed5Year = marketData.currentInterestRates.fixed5Year;
   useEffect(() => {
+    if (hasOwnRate) return;
     setFormData(prev => ({
       ...prev,
-      interestRate: winnipegData.currentInterestRates.fixed5Year
+      interestRate: currentFixed5Year
     }));
-  }, []);
+  }, [hasOwnRate, currentFixed5Year]);
+
+  // Browser back/forward restores the inputs saved in the query string
+  useEffect(() => {
+    if (!syncWithUrl) return;
+    const fromUrl = parseCalculationSearchParams(new URLSearchParams(location.search), initialFormData);
+    if (!fromUrl) return;
+    setFormData(prev => {
+      const current = MortgageCalculationSchema.safeParse(parseFormValues(MortgageCalculationSchema, prev));
+      return current.success && calculationToSearchParams(current.data).toString() === calculationToSearchParams(fromUrl).toString() ? prev : fromUrl;
+    });
+  }, [syncWithUrl, location.search]);
 
-  const handleInputChange = (field: keyof MortgageCalculation, value: string | number | boolean) => {
+  const handleInputChange = (field: keyof MortgageCalculation, value: string | number | boolean | undefined) => {
     setFormData(prev => ({
       ...prev,
       [field]: value
     }));
   };
 
-  const handleCalculateMortgage = () => {
-    setLoading(true);
-    setError(null);
+  // School divisions belong to a municipality, so a new municipality starts from its default division
+  const handleMunicipalityChange = (municipality: MortgageCalculation['municipality']) => {
+    setFormData(prev => ({
+      ...prev,
+      municipality,
+      schoolDivision: undefined
+    }));
+  };
 
-    try {
-      const result = calculateMortgage(formData);
-      setResult(result);
-    } catch (err) {
-      setError("Failed to calculate mortgage. Please check your inputs.");
-    } finally {
-      setLoading(false);
+  const handleOneTimePrepaymentsChange = (prepayments: FormValues<MortgageCalculation['oneTimePrepayments']>) => {
+    setFormData(prev => ({
+      ...prev,
+      oneTimePrepayments: prepayments
+    }));
+  };
+
+  const handlePrimeRatePathChange = (path: FormValues<MortgageCalculation['primeRatePath']>) => {
+    setFormData(prev => ({
+      ...prev,
+      primeRatePath: path
+    }));
+  };
+
+  const handleRenewalRatesChange = (rates: FormValues<MortgageCalculation['renewalRates']>) => {
+    setFormData(prev => ({
+      ...prev,
+      renewalRates: rates
+    }));
+  };
+
+  // Every edit is validated against the schema and mortgage rules; the first issue for each field is shown beside it
+  const validation = useMemo(() => validateMortgageCalculation(parseFormValues(MortgageCalculationSchema, formData)), [formData]);
+  // Inputs for the tools that need a complete calculation: the form when it is valid, else the last calculated inputs
+  const validInputs = validation.success ? validation.data : resultInputs ?? initialFormData;
+  const fieldErrors = useMemo(() => {
+    const errors: Record<string, string> = {};
+    const issues = validation.success ? calculationIssues : validation.issues;
+    for (const issue of issues) {
+      if (!(issue.field in errors)) errors[issue.field] = issue.message;
     }
+    return errors;
+  }, [validation, calculationIssues]);
+
+  // Recalculate once the inputs are valid and the user pauses; invalid inputs keep the last valid results on screen
+  useEffect(() => {
+    if (!validation.success) return;
+
+    const timer = setTimeout(() => {
+      try {
+        setResult(calculateMortgage(validation.data, marketData));
+        setSchedule(generateAmortizationSchedule(validation.data));
+        setResultInputs(validation.data);
+        setCalculationIssues([]);
+        setError(null);
+      } catch (err) {
+        if (err instanceof MortgageRulesError) {
+          setCalculationIssues(err.issues);
+          setError(null);
+        } else {
+          setError(err instanceof Error ? err.message : String(err));
+        }
+      }
+
+      // Each settled calculation becomes a history entry; a link that only differs in
+      // formatting or omitted defaults is rewritten in place
+      if (syncWithUrl) {
+        const search = calculationToSearchParams(validation.data).toString();
+        const current = parseCalculationSearchParams(new URLSearchParams(window.location.search), initialFormData);
+        if (`?${search}` !== window.location.search) {
+          const sameInputs = current !== null && calculationToSearchParams(current).toString() === search;
+          navigate({ search }, { replace: current === null || sameInputs });
+        }
+      }
+    }, recalculateDelayMs);
+    return () => clearTimeout(timer);
+  }, [validation, marketData, syncWithUrl, navigate]);
+
+  // Issues for items in a list input (e.g. "renewalRates.1"), shown together under the list
+  const renderListErrors = (field: keyof MortgageCalculation) =>
+    Object.entries(fieldErrors)
+      .filter(([key]) => key.startsWith(`${field}.`))
+      .map(([key, message]) => <FieldError key={key} message={message} />);
+
+  // Load the solver's maximum price into the calculator; results follow from the recalculation
+  const handleApplyAffordablePrice = (data: MortgageCalculation) => {
+    setFormData(data);
+    setMode("calculate");
+  };
+
+  // Restore a calculation from an exported JSON file, listing every field that fails validation
+  const handleImportFile = async (file: File) => {
+    const calculation = parseCalculationImportText(await file.text());
+    if (!calculation.success) {
+      setImportIssues(calculation.issues);
+      return;
+    }
+
+    setImportIssues([]);
+    setFormData(calculation.input);
   };
 
   const handleReset = () => {
     setFormData({
       ...initialFormData,
-      interestRate: winnipegData.currentInterestRates.fixed5Year
+      interestRate: marketData.currentInterestRates.fixed5Year
     });
     setResult(null);
+    setSchedule(null);
+    setResultInputs(null);
     setError(null);
-    setLoading(false);
+    setCalculationIssues([]);
+    setImportIssues([]);
   };
 
 
@@ -76,47 +259,133 @@ export default function MortgageCalculator() {
     }
   };
 
-  const getWinnipegFunFacts = (result: MortgageResult) => {
-    const facts = {
-      totalMonthlyCost: {
-        title: "🏠 Total Monthly Housing Cost",
-        amount: result.totalMonthlyCost,
-        fact: `If you spent ${formatCurrency(result.totalMonthlyCost)} every month at The Forks Market, you could treat yourself to ${Math.round(result.totalMonthlyCost / 6)} daily gourmet cinnamon rolls from Cinnaholic, a bison burger, and still have enough left over for a year's worth of skating rentals on the Red River Trail—one of the world's longest naturally frozen skating trails.`
-      },
-      monthlyPayment: {
-        title: "💳 Mortgage Payment",
-        amount: result.monthlyPayment,
-        fact: `${formatCurrency(result.monthlyPayment)} is about ${result.monthlyPayment < 1500 ? 'less than' : 'more than'} the cost of a round-trip flight from Winnipeg to Churchill, Manitoba for two—prime polar bear-watching territory. Or, you could buy roughly ${Math.round(result.monthlyPayment / 4)} tickets to a Winnipeg Goldeyes baseball game and invite the whole neighborhood.`
-      },
-      propertyTax: {
-        title: "🏛️ Property Tax",
-        amount: result.monthlyPropertyTax,
-        fact: `${formatCurrency(result.monthlyPropertyTax)} monthly adds up to ${formatCurrency(result.monthlyPropertyTax * 12)} annually. Fun fact: Winnipeg's property tax rates are among the lowest of major Canadian cities, but the city makes up for it with a unique "frontage levy" based on the width of your lot.`
-      },
-      insurance: {
-        title: "🛡️ Home Insurance",
-        amount: result.monthlyInsurance,
-        fact: `${formatCurrency(result.monthlyInsurance)} is about ${result.monthlyInsurance > 120 ? 'more than' : result.monthlyInsurance < 80 ? 'less than' : 'the same as'} what it costs to buy a premium Jets jersey at Canada Life Centre. And just like home insurance, it's a smart investment—especially if you want to protect your pride during playoff season.`
-      },
-      utilities: {
-        title: "⚡ Utilities (Est.)",
-        amount: result.monthlyUtilities,
-        fact: `${formatCurrency(result.monthlyUtilities)} a month is a typical hydro bill for a Winnipeg home in winter, when the city's famous cold snaps can make your furnace work overtime. Pro tip: Manitoba Hydro's "Power Smart" program can help you cut that bill down, and the city's record for the coldest day ever? A brisk -47.8°C in 1879.`
+  // Facts tied to local landmarks; communities without local content get none and the section is hidden
+  const getLocalFunFacts = (result: MortgageResult) => {
+    switch (result.municipality) {
+      case "winnipeg": {
+      const facts = {
+        totalMonthlyCost: {
+          title: "🏠 Total Monthly Housing Cost",
+          amount: result.totalMonthlyCost,
+          fact: `If you spent ${formatCurrency(result.totalMonthlyCost)} every month at The Forks Market, you could treat yourself to ${Math.round(result.totalMonthlyCost / 6)} daily gourmet cinnamon rolls from Cinnaholic, a bison burger, and still have enough left over for a year's worth of skating rentals on the Red River Trail—one of the world's longest naturally frozen skating trails.`
+        },
+        monthlyPayment: {
+          title: "💳 Mortgage Payment",
+          amount: result.monthlyPayment,
+          fact: `${formatCurrency(result.monthlyPayment)} is about ${result.monthlyPayment < 1500 ? 'less than' : 'more than'} the cost of a round-trip flight from Winnipeg to Churchill, Manitoba for two—prime polar bear-watching territory. Or, you could buy roughly ${Math.round(result.monthlyPayment / 4)} tickets to a Winnipeg Goldeyes baseball game and invite the whole neighborhood.`
+        },
+        propertyTax: {
+          title: "🏛️ Property Tax",
+          amount: result.monthlyPropertyTax,
+          fact: `${formatCurrency(result.monthlyPropertyTax)} monthly adds up to ${formatCurrency(result.monthlyPropertyTax * 12)} annually. Fun fact: Winnipeg's property tax rates are among the lowest of major Canadian cities, but the city makes up for it with a unique "frontage levy" based on the width of your lot.`
+        },
+        insurance: {
+          title: "🛡️ Home Insurance",
+          amount: result.monthlyInsurance,
+          fact: `${formatCurrency(result.monthlyInsurance)} is about ${result.monthlyInsurance > 120 ? 'more than' : result.monthlyInsurance < 80 ? 'less than' : 'the same as'} what it costs to buy a premium Jets jersey at Canada Life Centre. And just like home insurance, it's a smart investment—especially if you want to protect your pride during playoff season.`
+        },
+        utilities: {
+          title: "⚡ Utilities (Est.)",
+          amount: result.monthlyUtilities,
+          fact: `${formatCurrency(result.monthlyUtilities)} a month is a typical hydro bill for a Winnipeg home in winter, when the city's famous cold snaps can make your furnace work overtime. Pro tip: Manitoba Hydro's "Power Smart" program can help you cut that bill down, and the city's record for the coldest day ever? A brisk -47.8°C in 1879.`
+        }
+      };
+
+      const bonusFacts = [
+        `If you lined up ${formatCurrency(result.totalMonthlyCost)} in loonies from Portage & Main to The Forks, you'd cover about ${(result.totalMonthlyCost * 0.0005).toFixed(1)} kilometers—${result.totalMonthlyCost > 5000 ? 'more than' : 'almost'} the length of the city's famous river skating trail.`,
+        `${formatCurrency(100)} in 1919 (the year of the Winnipeg General Strike) would be worth over $1,500 today—enough to cover your home insurance for ${Math.round(1500 / result.monthlyInsurance)} months and still have change for a box of Old Dutch chips.`,
+        `Your annual mortgage payments (${formatCurrency(result.monthlyPayment * 12)}) could buy ${Math.round((result.monthlyPayment * 12) / 8)} season tickets to Jets games—though good luck getting those seats!`
+      ];
+
+      return { ...facts, bonusFacts };
       }
-    };
+      case "steinbach": {
+        const facts = {
+          totalMonthlyCost: {
+            title: "🏠 Total Monthly Housing Cost",
+            amount: result.totalMonthlyCost,
+            fact: `${formatCurrency(result.totalMonthlyCost)} a month would buy ${Math.round(result.totalMonthlyCost / 15)} family passes to the Mennonite Heritage Village, where you can watch the historic windmill grind grain just like it did in the 1870s.`
+          },
+          monthlyPayment: {
+            title: "💳 Mortgage Payment",
+            amount: result.monthlyPayment,
+            fact: `Steinbach is known as "The Automobile City" for its stretch of dealerships. Your ${formatCurrency(result.monthlyPayment)} payment is ${result.monthlyPayment > 700 ? 'more than' : 'less than'} a typical new-car lease, so you could test-drive your way down Main Street while you think it over.`
+          },
+          propertyTax: {
+            title: "🏛️ Property Tax",
+            amount: result.monthlyPropertyTax,
+            fact: `${formatCurrency(result.monthlyPropertyTax)} monthly adds up to ${formatCurrency(result.monthlyPropertyTax * 12)} a year, helping fund one of Manitoba's fastest-growing cities—Steinbach is now the province's third largest.`
+          }
+        };
 
-    const bonusFacts = [
-      `If you lined up ${formatCurrency(result.totalMonthlyCost)} in loonies from Portage & Main to The Forks, you'd cover about ${(result.totalMonthlyCost * 0.0005).toFixed(1)} kilometers—${result.totalMonthlyCost > 5000 ? 'more than' : 'almost'} the length of the city's famous river skating trail.`,
-      `${formatCurrency(100)} in 1919 (the year of the Winnipeg General Strike) would be worth over $1,500 today—enough to cover your home insurance for ${Math.round(1500 / result.monthlyInsurance)} months and still have change for a box of Old Dutch chips.`,
-      `Your annual mortgage payments (${formatCurrency(result.monthlyPayment * 12)}) could buy ${Math.round((result.monthlyPayment * 12) / 8)} season tickets to Jets games—though good luck getting those seats!`
-    ];
+        const bonusFacts = [
+          `Your annual mortgage payments (${formatCurrency(result.monthlyPayment * 12)}) could cover about ${Math.round((result.monthlyPayment * 12) / 3600)} years of commuting the 60 km to Winnipeg and back every workday.`
+        ];
+
+        return { ...facts, bonusFacts };
+      }
+      case "brandon": {
+        const facts = {
+          totalMonthlyCost: {
+            title: "🏠 Total Monthly Housing Cost",
+            amount: result.totalMonthlyCost,
+            fact: `${formatCurrency(result.totalMonthlyCost)} a month is roughly ${Math.round(result.totalMonthlyCost / 30)} tickets to a Brandon Wheat Kings game at Westoba Place—plenty to bring the whole street to a WHL rivalry night.`
+          },
+          monthlyPayment: {
+            title: "💳 Mortgage Payment",
+            amount: result.monthlyPayment,
+            fact: `Every spring the Royal Manitoba Winter Fair fills the Keystone Centre. Your ${formatCurrency(result.monthlyPayment)} payment could cover about ${Math.round(result.monthlyPayment / 20)} day passes to watch the heavy horse shows.`
+          },
+          propertyTax: {
+            title: "🏛️ Property Tax",
+            amount: result.monthlyPropertyTax,
+            fact: `${formatCurrency(result.monthlyPropertyTax)} monthly adds up to ${formatCurrency(result.monthlyPropertyTax * 12)} a year for the Wheat City, Manitoba's second-largest city, including the trails and parks along the Assiniboine River.`
+          }
+        };
 
-    return { ...facts, bonusFacts };
+        const bonusFacts = [
+          `Your annual mortgage payments (${formatCurrency(result.monthlyPayment * 12)}) would fill up a pickup about ${Math.round((result.monthlyPayment * 12) / 120)} times—enough for ${Math.round((result.monthlyPayment * 12) / 120 / 2)} round trips down the Trans-Canada to Winnipeg.`
+        ];
+
+        return { ...facts, bonusFacts };
+      }
+      case "selkirk": {
+        const facts = {
+          totalMonthlyCost: {
+            title: "🏠 Total Monthly Housing Cost",
+            amount: result.totalMonthlyCost,
+            fact: `Selkirk calls itself the Catfish Capital of Canada, and Chuck the Channel Catfish stands guard downtown. ${formatCurrency(result.totalMonthlyCost)} a month would pay for ${Math.round(result.totalMonthlyCost / 300)} guided days chasing trophy catfish on the Red River.`
+          },
+          monthlyPayment: {
+            title: "💳 Mortgage Payment",
+            amount: result.monthlyPayment,
+            fact: `Your ${formatCurrency(result.monthlyPayment)} payment could buy about ${Math.round(result.monthlyPayment / 10)} admissions to the Marine Museum of Manitoba, where you can climb aboard historic Lake Winnipeg ships.`
+          },
+          propertyTax: {
+            title: "🏛️ Property Tax",
+            amount: result.monthlyPropertyTax,
+            fact: `${formatCurrency(result.monthlyPropertyTax)} monthly adds up to ${formatCurrency(result.monthlyPropertyTax * 12)} a year, supporting a riverside city just up the road from Lower Fort Garry National Historic Site.`
+          }
+        };
+
+        const bonusFacts = [
+          `Your annual mortgage payments (${formatCurrency(result.monthlyPayment * 12)}) could buy ${Math.round((result.monthlyPayment * 12) / 40)} fishing licences—enough for everyone on your block and the next few blocks over.`
+        ];
+
+        return { ...facts, bonusFacts };
+      }
+      default:
+        return null;
+    }
   };
 
+  const localFunFacts = result ? getLocalFunFacts(result) : null;
+  const municipalityName = marketData.municipalities[result?.municipality ?? formData.municipality].name;
+
   return (
-    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900">
-      <div className="max-w-6xl mx-auto px-4 py-8">
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900 print:min-h-0 print:bg-none">
+      {/* The whole interactive calculator, form and fun facts included, is replaced by the report when printing */}
+      <div className="max-w-6xl mx-auto px-4 py-8 print:hidden">
         {/* Header */}
         <div className="flex flex-col items-center justify-center text-center mb-16">
           {/* Logo & Title Section */}
@@ -154,10 +423,10 @@ export default function MortgageCalculator() {
             {/* Features/Data Source Pills */}
             <div className="flex flex-wrap justify-center gap-3">
               {[
-                { label: "Winnipeg Tax Rates (2.35%)", icon: "🏙️" },
+                { label: "Manitoba Mill Rates", icon: "🏙️" },
                 { label: "Manitoba Home Insurance", icon: "🛡️" },
                 { label: "Hydro Estimates", icon: "⚡" },
-                { label: "Live CAD Rates", icon: "📈" }
+                { label: `Rates as of ${formatDate(marketData.effectiveDate)}`, icon: "📈" }
               ].map((item, i) => (
                 <span key={i} className="inline-flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm border border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-300 shadow-sm hover:shadow-md transition-all duration-300 hover:-translate-y-0.5 cursor-default select-none">
                   <span>{item.icon}</span>
@@ -166,6 +435,12 @@ export default function MortgageCalculator() {
               ))}
             </div>
 
+            {scenarioName && (
+              <p className="inline-flex items-center gap-2 px-4 py-2 rounded-full text-sm font-semibold bg-blue-600 text-white shadow-sm">
+                Shared scenario: {scenarioName}
+              </p>
+            )}
+
             <p className="text-sm text-gray-500 dark:text-gray-400 max-w-2xl mx-auto leading-relaxed pt-6 border-t border-gray-100 dark:border-gray-800/50">
               Calculations include local property tax assessments, CMHC guidelines, and Manitoba-specific utility averages.
             </p>
@@ -174,519 +449,1215 @@ export default function MortgageCalculator() {
 
 
 
-        <div className="grid lg:grid-cols-2 gap-8">
-          {/* Calculator Form */}
-          <div className="bg-white dark:bg-gray-800 rounded-3xl shadow-xl border border-gray-100 dark:border-gray-700 p-8">
-            <div className="flex items-center gap-3 mb-8">
-              <Calculator className="w-6 h-6 text-blue-600" />
-              <h2 className="text-2xl font-bold text-gray-800 dark:text-gray-100">Calculate Your Mortgage</h2>
-            </div>
+        {/* Mode Toggle */}
+        <div className="flex justify-center mb-8">
+          <div className="inline-flex flex-wrap justify-center p-1 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-2xl shadow-sm">
+            {([
+              { id: "calculate", label: "Calculator", icon: Calculator },
+              { id: "compare", label: "Compare Scenarios", icon: Columns3 },
+              { id: "afford", label: "What Can I Afford?", icon: Target },
+              { id: "refinance", label: "Break or Refinance", icon: Repeat },
+            ] as const).map(({ id, label, icon: Icon }) => (
+              <button
+                key={id}
+                type="button"
+                onClick={() => setMode(id)}
+                className={`flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-semibold transition-all duration-200 ${mode === id
+                  ? 'bg-blue-600 text-white shadow-sm'
+                  : 'text-gray-600 dark:text-gray-300 hover:text-blue-600 dark:hover:text-blue-400'
+                  }`}
+              >
+                <Icon className="w-4 h-4" />
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
 
-            <div className="space-y-6">
-              {/* Property Value */}
-              <div>
-                <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
-                  Property Value
-                </label>
-                <div className="relative">
-                  <DollarSign className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
-                  <input
-                    type="number"
-                    value={formData.propertyValue}
-                    onChange={(e) => handleInputChange('propertyValue', parseInt(e.target.value) || 0)}
-                    className="w-full pl-10 pr-4 py-3 border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 focus:scale-[1.01] shadow-sm"
-                    placeholder="400,000"
-                  />
+        {mode === "calculate" && (
+          <>
+            <div className="grid lg:grid-cols-2 gap-8">
+              {/* Calculator Form */}
+              <div className="bg-white dark:bg-gray-800 rounded-3xl shadow-xl border border-gray-100 dark:border-gray-700 p-8">
+                <div className="flex items-center gap-3 mb-8">
+                  <Calculator className="w-6 h-6 text-blue-600" />
+                  <h2 className="flex-1 text-2xl font-bold text-gray-800 dark:text-gray-100">Calculate Your Mortgage</h2>
+                  <label className="inline-flex items-center gap-2 px-3 py-2 text-sm font-semibold text-blue-600 dark:text-blue-400 border border-blue-200 dark:border-blue-800 rounded-xl hover:bg-blue-50 dark:hover:bg-gray-700 transition-colors cursor-pointer">
+                    <Upload className="w-4 h-4" />
+                    Import
+                    <input
+                      type="file"
+                      accept="application/json,.json"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) handleImportFile(file);
+                        e.target.value = "";
+                      }}
+                    />
+                  </label>
                 </div>
 
-                {/* Quick Property Value Pills */}
-                <div className="mt-3">
-                  <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">Quick select (typical Winnipeg prices):</p>
-                  <div className="flex flex-wrap gap-2">
-                    {[
-                      { label: "$275K", value: 275000, downPayment: 27500 },
-                      { label: "$375K", value: 375000, downPayment: 37500 },
-                      { label: "$475K", value: 475000, downPayment: 71250 },
-                      { label: "$575K", value: 575000, downPayment: 86250 },
-                      { label: "$675K", value: 675000, downPayment: 135000 },
-                      { label: "$875K", value: 875000, downPayment: 175000 },
-                      { label: "$1.1M", value: 1100000, downPayment: 220000 },
-                    ].map((preset) => (
-                      <button
-                        key={preset.value}
-                        type="button"
-                        onClick={() => {
-                          handleInputChange('propertyValue', preset.value);
-                          handleInputChange('downPayment', preset.downPayment);
-                        }}
-                        className={`px-3 py-1.5 text-xs font-medium rounded-lg border transition-all duration-200 ${formData.propertyValue === preset.value
-                          ? 'bg-blue-600 text-white border-blue-600 shadow-sm'
-                          : 'bg-white dark:bg-gray-700 text-gray-600 dark:text-gray-300 border-gray-200 dark:border-gray-600 hover:border-blue-300 hover:text-blue-600 dark:hover:text-blue-400'
-                          }`}
-                      >
-                        {preset.label}
+                {importIssues.length > 0 && (
+                  <div className="mb-6 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl text-red-600 dark:text-red-400">
+                    <div className="flex items-center justify-between gap-2 mb-2">
+                      <p className="text-sm font-semibold">This file could not be imported:</p>
+                      <button type="button" onClick={() => setImportIssues([])} aria-label="Dismiss import errors">
+                        <X className="w-4 h-4" />
                       </button>
-                    ))}
+                    </div>
+                    <ul className="space-y-1 text-sm">
+                      {importIssues.map((issue, index) => (
+                        <li key={index}>
+                          {issue.field && <span className="font-mono font-semibold">{issue.field}: </span>}
+                          {issue.message}
+                        </li>
+                      ))}
+                    </ul>
                   </div>
-                </div>
-              </div>
-
-              {/* Down Payment */}
-              <div>
-                <label className="block text-sm font-semibold text-gray-700 mb-2">
-                  Down Payment
-                </label>
-                <div className="relative">
-                  <DollarSign className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
-                  <input
-                    type="number"
-                    value={formData.downPayment}
-                    onChange={(e) => handleInputChange('downPayment', parseInt(e.target.value) || 0)}
-                    className="w-full pl-10 pr-4 py-3 border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 focus:scale-[1.01] shadow-sm"
-                    placeholder="80,000"
-                  />
-                </div>
-                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                  {formData.propertyValue > 0 && (
-                    `${((formData.downPayment / formData.propertyValue) * 100).toFixed(1)}% of property value`
-                  )}
-                </p>
-              </div>
+                )}
 
-              {/* Interest Rate */}
-              <div>
-                <label className="block text-sm font-semibold text-gray-700 mb-2">
-                  Interest Rate (%)
-                </label>
-                <div className="relative">
-                  <Percent className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
-                  <input
-                    type="number"
-                    step="0.01"
-                    value={formData.interestRate}
-                    onChange={(e) => handleInputChange('interestRate', parseFloat(e.target.value) || 0)}
-                    className="w-full pl-10 pr-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 focus:scale-[1.01] shadow-sm"
-                    placeholder="4.84"
-                  />
-                </div>
-                <div className="text-xs text-gray-500 dark:text-gray-400 mt-1 space-y-1">
-                  <p>Current rates: 1-year {winnipegData.currentInterestRates.fixed1Year}%, 5-year {winnipegData.currentInterestRates.fixed5Year}%</p>
-                </div>
-              </div>
+                <div className="space-y-6">
+                  {/* Municipality */}
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+                      Municipality
+                    </label>
+                    <select
+                      value={formData.municipality}
+                      onChange={(e) => handleMunicipalityChange(e.target.value as MortgageCalculation['municipality'])}
+                      className="w-full px-4 py-3 border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent appearance-none bg-white transition-all duration-200 focus:scale-[1.01] shadow-sm"
+                    >
+                      {Object.entries(marketData.municipalities).map(([value, profile]) => (
+                        <option key={value} value={value}>{profile.name}</option>
+                      ))}
+                    </select>
+                    {(() => {
+                      const profile = marketData.municipalities[formData.municipality];
+                      return (
+                        <>
+                          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                            {profile.municipalMillRate} municipal mills plus school division mills on {profile.residentialPortion}% of assessed value
+                            {profile.frontageLevyPerFoot > 0 && `, plus a ${formatCurrency(profile.frontageLevyPerFoot)}/ft frontage levy`}
+                          </p>
 
-              {/* Amortization Period */}
-              <div>
-                <label className="block text-sm font-semibold text-gray-700 mb-2">
-                  Amortization Period (Years)
-                </label>
-                <div className="relative">
-                  <Clock className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
-                  <select
-                    value={formData.amortizationYears}
-                    onChange={(e) => handleInputChange('amortizationYears', parseInt(e.target.value))}
-                    className="w-full pl-10 pr-4 py-3 border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent appearance-none bg-white transition-all duration-200 focus:scale-[1.01] shadow-sm"
-                  >
-                    {[15, 20, 25, 30, 35].map(years => (
-                      <option key={years} value={years}>{years} years</option>
-                    ))}
-                  </select>
-                </div>
-              </div>
+                          {/* Property tax details (optional) */}
+                          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mt-4">
+                            <div>
+                              <label className="block text-xs font-semibold text-gray-600 dark:text-gray-400 mb-1">Assessed Value</label>
+                              <input
+                                type="number"
+                                value={formData.assessedValue ?? ""}
+                                onChange={(e) => handleInputChange('assessedValue', e.target.value)}
+                                className="w-full px-3 py-2 border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                                placeholder="Same as price"
+                              />
+                              <FieldError message={fieldErrors.assessedValue} />
+                            </div>
+                            <div>
+                              <label className="block text-xs font-semibold text-gray-600 dark:text-gray-400 mb-1">School Division</label>
+                              <select
+                                value={formData.schoolDivision ?? profile.schoolDivisions[0].id}
+                                onChange={(e) => handleInputChange('schoolDivision', e.target.value)}
+                                className="w-full px-3 py-2 border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                              >
+                                {profile.schoolDivisions.map(division => (
+                                  <option key={division.id} value={division.id}>{division.name} ({division.millRate} mills)</option>
+                                ))}
+                              </select>
+                              <FieldError message={fieldErrors.schoolDivision} />
+                            </div>
+                            {profile.frontageLevyPerFoot > 0 && (
+                              <div>
+                                <label className="block text-xs font-semibold text-gray-600 dark:text-gray-400 mb-1">Lot Frontage (ft)</label>
+                                <input
+                                  type="number"
+                                  value={formData.lotFrontage ?? ""}
+                                  onChange={(e) => handleInputChange('lotFrontage', e.target.value)}
+                                  className="w-full px-3 py-2 border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                                  placeholder={`${profile.typicalLotFrontage} (typical)`}
+                                />
+                                <FieldError message={fieldErrors.lotFrontage} />
+                              </div>
+                            )}
+                          </div>
+                        </>
+                      );
+                    })()}
+                  </div>
 
-              {/* Property Type */}
-              <div>
-                <label className="block text-sm font-semibold text-gray-700 mb-2">
-                  Property Type
-                </label>
-                <select
-                  value={formData.propertyType}
-                  onChange={(e) => handleInputChange('propertyType', e.target.value as any)}
-                  className="w-full px-4 py-3 border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent appearance-none bg-white transition-all duration-200 focus:scale-[1.01] shadow-sm"
-                >
-                  <option value="single-family">Single Family Home</option>
-                  <option value="condo">Condominium</option>
-                  <option value="townhouse">Townhouse</option>
-                  <option value="multi-family">Multi-Family</option>
-                </select>
-              </div>
+                  {/* Property Value */}
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+                      Property Value
+                    </label>
+                    <div className="relative">
+                      <DollarSign className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+                      <input
+                        type="number"
+                        value={formData.propertyValue}
+                        onChange={(e) => handleInputChange('propertyValue', e.target.value)}
+                        className="w-full pl-10 pr-4 py-3 border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 focus:scale-[1.01] shadow-sm"
+                        placeholder="400,000"
+                      />
+                    </div>
+                    <FieldError message={fieldErrors.propertyValue} />
 
-              {/* Heating Type */}
-              <div>
-                <label className="block text-sm font-semibold text-gray-700 mb-2">
-                  Heating Type
-                </label>
-                <select
-                  value={formData.heatingType}
-                  onChange={(e) => handleInputChange('heatingType', e.target.value as any)}
-                  className="w-full px-4 py-3 border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent appearance-none bg-white transition-all duration-200 focus:scale-[1.01] shadow-sm"
-                >
-                  <option value="gas">Natural Gas</option>
-                  <option value="electric">Electric</option>
-                  <option value="oil">Oil</option>
-                  <option value="geothermal">Geothermal</option>
-                </select>
-              </div>
+                    {/* Quick Property Value Pills */}
+                    <div className="mt-3">
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">Quick select (typical Winnipeg prices):</p>
+                      <div className="flex flex-wrap gap-2">
+                        {[
+                          { label: "$275K", value: 275000, downPayment: 27500 },
+                          { label: "$375K", value: 375000, downPayment: 37500 },
+                          { label: "$475K", value: 475000, downPayment: 71250 },
+                          { label: "$575K", value: 575000, downPayment: 86250 },
+                          { label: "$675K", value: 675000, downPayment: 135000 },
+                          { label: "$875K", value: 875000, downPayment: 175000 },
+                          { label: "$1.1M", value: 1100000, downPayment: 220000 },
+                        ].map((preset) => (
+                          <button
+                            key={preset.value}
+                            type="button"
+                            onClick={() => {
+                              handleInputChange('propertyValue', preset.value);
+                              handleInputChange('downPayment', preset.downPayment);
+                            }}
+                            className={`px-3 py-1.5 text-xs font-medium rounded-lg border transition-all duration-200 ${Number(formData.propertyValue) === preset.value
+                              ? 'bg-blue-600 text-white border-blue-600 shadow-sm'
+                              : 'bg-white dark:bg-gray-700 text-gray-600 dark:text-gray-300 border-gray-200 dark:border-gray-600 hover:border-blue-300 hover:text-blue-600 dark:hover:text-blue-400'
+                              }`}
+                          >
+                            {preset.label}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
 
-              {/* First Time Buyer */}
-              <div className="flex items-center gap-3">
-                <input
-                  type="checkbox"
-                  id="firstTimeBuyer"
-                  checked={formData.isFirstTimeBuyer}
-                  onChange={(e) => handleInputChange('isFirstTimeBuyer', e.target.checked)}
-                  className="w-5 h-5 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
-                />
-                <label htmlFor="firstTimeBuyer" className="text-sm font-semibold text-gray-700 dark:text-gray-300">
-                  First-time home buyer
-                </label>
-              </div>
+                  {/* Down Payment */}
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 mb-2">
+                      Down Payment
+                    </label>
+                    <div className="relative">
+                      <DollarSign className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+                      <input
+                        type="number"
+                        value={formData.downPayment}
+                        onChange={(e) => handleInputChange('downPayment', e.target.value)}
+                        className="w-full pl-10 pr-4 py-3 border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 focus:scale-[1.01] shadow-sm"
+                        placeholder="80,000"
+                      />
+                    </div>
+                    <FieldError message={fieldErrors.downPayment} />
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      {Number(formData.propertyValue) > 0 && (
+                        `${((Number(formData.downPayment) / Number(formData.propertyValue)) * 100).toFixed(1)}% of property value · minimum ${formatCurrency(getMinimumDownPayment(Number(formData.propertyValue)))}`
+                      )}
+                    </p>
+                  </div>
 
-              <div className="flex gap-3">
-                <button
-                  onClick={handleReset}
-                  className="flex-1 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 py-4 px-6 rounded-xl font-semibold text-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-all duration-200 shadow-lg hover:shadow-xl flex items-center justify-center gap-2"
-                >
-                  <RotateCcw className="w-5 h-5" />
-                  Reset
-                </button>
-                <button
-                  onClick={handleCalculateMortgage}
-                  disabled={loading}
-                  className="flex-[2] bg-gradient-to-r from-blue-600 to-indigo-600 dark:from-blue-500 dark:to-indigo-500 text-white py-4 px-6 rounded-xl font-semibold text-lg hover:from-blue-700 hover:to-indigo-700 dark:hover:from-blue-600 dark:hover:to-indigo-600 transition-all duration-200 shadow-lg hover:shadow-xl disabled:opacity-50 disabled:cursor-not-allowed"
-                >
-                  {loading ? "Calculating..." : "Calculate Mortgage"}
-                </button>
-              </div>
+                  {/* Mortgage Insurer */}
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 mb-2">
+                      Mortgage Insurer
+                    </label>
+                    <select
+                      value={formData.mortgageInsurer}
+                      onChange={(e) => handleInputChange('mortgageInsurer', e.target.value as MortgageCalculation['mortgageInsurer'])}
+                      className="w-full px-4 py-3 border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent appearance-none bg-white transition-all duration-200 focus:scale-[1.01] shadow-sm"
+                    >
+                      {Object.entries(mortgageInsurers).map(([value, insurer]) => (
+                        <option key={value} value={value}>{insurer.label}</option>
+                      ))}
+                    </select>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      Default insurance is required with less than 20% down. Insured amortizations over 25 years are limited to first-time buyers. The premium, any extended amortization surcharge and the sales tax on the premium follow the selected insurer's published rates.
+                    </p>
+                  </div>
 
-              {error && (
-                <div className="flex items-center gap-2 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl text-red-600 dark:text-red-400">
-                  <AlertTriangle className="w-5 h-5" />
-                  <p className="text-sm font-medium">{error}</p>
-                </div>
-              )}
-            </div>
-          </div>
+                  {/* Interest Rate */}
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 mb-2">
+                      Interest Rate (%)
+                    </label>
+                    <div className="relative">
+                      <Percent className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+                      <input
+                        type="number"
+                        step="0.01"
+                        value={formData.interestRate}
+                        onChange={(e) => handleInputChange('interestRate', e.target.value)}
+                        className="w-full pl-10 pr-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 focus:scale-[1.01] shadow-sm"
+                        placeholder="4.84"
+                      />
+                    </div>
+                    <FieldError message={fieldErrors.interestRate} />
+                    <div className="text-xs text-gray-500 dark:text-gray-400 mt-1 space-y-1">
+                      <p>Current rates (as of {formatDate(marketData.effectiveDate)}): 1-year {marketData.currentInterestRates.fixed1Year}%, 5-year {marketData.currentInterestRates.fixed5Year}%, variable {marketData.currentInterestRates.variable}%</p>
+                    </div>
+                  </div>
 
-          {/* Results */}
-          <div className="space-y-6">
-            {result && (
-              <>
-                {/* Main Results */}
-                <div className="bg-white dark:bg-gray-800 rounded-3xl shadow-xl border border-gray-100 dark:border-gray-700 p-8">
-                  <h3 className="text-2xl font-bold text-gray-800 dark:text-gray-100 mb-6">Your Monthly Payment</h3>
-
-                  {/* Chart Visualization */}
-                  <DonutChart data={[
-                    { label: 'Mortgage', value: result.monthlyPayment, color: '#2563eb' }, // blue-600
-                    { label: 'Property Tax', value: result.monthlyPropertyTax, color: '#4f46e5' }, // indigo-600
-                    { label: 'Insurance', value: result.monthlyInsurance, color: '#9333ea' }, // purple-600
-                    { label: 'Utilities', value: result.monthlyUtilities, color: '#db2777' }, // pink-600
-                  ]} />
+                  {/* Rate Type / Compounding */}
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 mb-2">
+                      Rate Type
+                    </label>
+                    <select
+                      value={formData.compounding}
+                      onChange={(e) => handleInputChange('compounding', e.target.value as MortgageCalculation['compounding'])}
+                      className="w-full px-4 py-3 border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent appearance-none bg-white transition-all duration-200 focus:scale-[1.01] shadow-sm"
+                    >
+                      <option value="semi-annual">Fixed (compounded semi-annually)</option>
+                      <option value="monthly">Variable (compounded monthly)</option>
+                    </select>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      Canadian fixed-rate mortgages compound semi-annually under the Interest Act.
+                    </p>
 
-                  <div className="text-center mb-8">
-                    <p className="text-gray-600 dark:text-gray-300">Total monthly housing cost</p>
+                    {formData.compounding === "monthly" && (
+                      <div className="mt-3 space-y-2">
+                        <select
+                          value={formData.variablePaymentType}
+                          onChange={(e) => handleInputChange('variablePaymentType', e.target.value as MortgageCalculation['variablePaymentType'])}
+                          className="w-full px-3 py-2 border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent appearance-none bg-white shadow-sm"
+                        >
+                          <option value="adjustable">Adjustable payment (changes with prime)</option>
+                          <option value="fixed">Fixed payment (rate changes alter the interest/principal split)</option>
+                        </select>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">Projected prime-rate moves (e.g. Bank of Canada announcements), in percentage points:</p>
+                        {formData.primeRatePath.map((move, index) => (
+                          <div key={index} className="flex items-center gap-2">
+                            <input
+                              type="date"
+                              value={move.date}
+                              onChange={(e) => handlePrimeRatePathChange(
+                                formData.primeRatePath.map((item, i) => i === index ? { ...item, date: e.target.value } : item)
+                              )}
+                              className="flex-1 px-3 py-2 border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent shadow-sm"
+                            />
+                            <div className="relative flex-1">
+                              <Percent className="absolute left-2 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+                              <input
+                                type="number"
+                                step="0.25"
+                                value={move.change}
+                                onChange={(e) => handlePrimeRatePathChange(
+                                  formData.primeRatePath.map((item, i) => i === index ? { ...item, change: e.target.value } : item)
+                                )}
+                                className="w-full pl-8 pr-3 py-2 border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent shadow-sm"
+                              />
+                            </div>
+                            <button
+                              type="button"
+                              onClick={() => handlePrimeRatePathChange(formData.primeRatePath.filter((_, i) => i !== index))}
+                              className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                              aria-label="Remove prime rate move"
+                            >
+                              <X className="w-4 h-4" />
+                            </button>
+                          </div>
+                        ))}
+                        {renderListErrors('primeRatePath')}
+                        <button
+                          type="button"
+                          onClick={() => handlePrimeRatePathChange([
+                            ...formData.primeRatePath,
+                            { date: new Date().toISOString().slice(0, 10), change: 0.25 },
+                          ])}
+                          className="inline-flex items-center gap-1 text-xs font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                        >
+                          <Plus className="w-3 h-3" />
+                          Add prime rate move
+                        </button>
+                      </div>
+                    )}
                   </div>
 
-                  <div className="grid grid-cols-2 gap-4 mb-6">
-                    <div className="p-4 bg-gray-50 dark:bg-gray-700 rounded-xl">
-                      <p className="text-sm text-gray-600 dark:text-gray-400 mb-1">Mortgage Payment</p>
-                      <p className="text-xl font-bold text-gray-800 dark:text-gray-100">{formatCurrency(result.monthlyPayment)}</p>
-                    </div>
-                    <div className="p-4 bg-gray-50 dark:bg-gray-700 rounded-xl">
-                      <p className="text-sm text-gray-600 dark:text-gray-400 mb-1">Property Tax</p>
-                      <p className="text-xl font-bold text-gray-800 dark:text-gray-100">{formatCurrency(result.monthlyPropertyTax)}</p>
+                  {/* Amortization Period */}
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 mb-2">
+                      Amortization Period (Years)
+                    </label>
+                    <div className="relative">
+                      <Clock className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+                      <select
+                        value={formData.amortizationYears}
+                        onChange={(e) => handleInputChange('amortizationYears', parseInt(e.target.value))}
+                        className="w-full pl-10 pr-4 py-3 border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent appearance-none bg-white transition-all duration-200 focus:scale-[1.01] shadow-sm"
+                      >
+                        {[15, 20, 25, 30, 35].map(years => (
+                          <option key={years} value={years}>{years} years</option>
+                        ))}
+                      </select>
                     </div>
-                    <div className="p-4 bg-gray-50 dark:bg-gray-700 rounded-xl">
-                      <p className="text-sm text-gray-600 dark:text-gray-400 mb-1">Home Insurance</p>
-                      <p className="text-xl font-bold text-gray-800 dark:text-gray-100">{formatCurrency(result.monthlyInsurance)}</p>
+                    <FieldError message={fieldErrors.amortizationYears} />
+                  </div>
+
+                  {/* Term */}
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 mb-2">
+                      Term (Years)
+                    </label>
+                    <div className="relative">
+                      <Clock className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+                      <select
+                        value={formData.termYears}
+                        onChange={(e) => handleInputChange('termYears', parseInt(e.target.value))}
+                        className="w-full pl-10 pr-4 py-3 border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent appearance-none bg-white transition-all duration-200 focus:scale-[1.01] shadow-sm"
+                      >
+                        {[1, 2, 3, 4, 5, 7, 10].map(years => (
+                          <option key={years} value={years}>{years} {years === 1 ? 'year' : 'years'}</option>
+                        ))}
+                      </select>
                     </div>
-                    <div className="p-4 bg-gray-50 dark:bg-gray-700 rounded-xl">
-                      <p className="text-sm text-gray-600 dark:text-gray-400 mb-1">Utilities (Est.)</p>
-                      <p className="text-xl font-bold text-gray-800 dark:text-gray-100">{formatCurrency(result.monthlyUtilities)}</p>
+                    <FieldError message={fieldErrors.termYears} />
+
+                    <div className="mt-3 space-y-2">
+                      <p className="text-xs text-gray-500 dark:text-gray-400">Renewal rates to test (current market and ±1%/±2% shocks are always included):</p>
+                      {formData.renewalRates.map((rate, index) => (
+                        <div key={index} className="flex items-center gap-2">
+                          <div className="relative flex-1">
+                            <Percent className="absolute left-2 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+                            <input
+                              type="number"
+                              step="0.01"
+                              value={rate}
+                              onChange={(e) => handleRenewalRatesChange(
+                                formData.renewalRates.map((item, i) => i === index ? e.target.value : item)
+                              )}
+                              className="w-full pl-8 pr-3 py-2 border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent shadow-sm"
+                            />
+                          </div>
+                          <button
+                            type="button"
+                            onClick={() => handleRenewalRatesChange(formData.renewalRates.filter((_, i) => i !== index))}
+                            className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                            aria-label="Remove renewal rate"
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        </div>
+                      ))}
+                      {renderListErrors('renewalRates')}
+                      <button
+                        type="button"
+                        onClick={() => handleRenewalRatesChange([...formData.renewalRates, formData.interestRate])}
+                        className="inline-flex items-center gap-1 text-xs font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                      >
+                        <Plus className="w-3 h-3" />
+                        Add renewal rate
+                      </button>
                     </div>
                   </div>
 
-                  {/* Affordability Rating */}
-                  <div className={`p-4 rounded-xl border-2 ${getAffordabilityColor(result.affordabilityRating)}`}>
-                    <div className="flex items-center gap-2 mb-2">
-                      {result.affordabilityRating === "excellent" || result.affordabilityRating === "good" ? (
-                        <CheckCircle className="w-5 h-5" />
-                      ) : (
-                        <Info className="w-5 h-5" />
-                      )}
-                      <span className="font-semibold capitalize">
-                        {result.affordabilityRating} Affordability
-                      </span>
-                    </div>
-                    <p className="text-sm dark:text-gray-700">
-                      Based on typical debt-to-income ratios for this payment level.
-                    </p>
+                  {/* Payment Frequency */}
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 mb-2">
+                      Payment Frequency
+                    </label>
+                    <select
+                      value={formData.paymentFrequency}
+                      onChange={(e) => handleInputChange('paymentFrequency', e.target.value as MortgageCalculation['paymentFrequency'])}
+                      className="w-full px-4 py-3 border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent appearance-none bg-white transition-all duration-200 focus:scale-[1.01] shadow-sm"
+                    >
+                      {Object.entries(paymentFrequencies).map(([frequency, { label }]) => (
+                        <option key={frequency} value={frequency}>{label}</option>
+                      ))}
+                    </select>
                   </div>
-                </div>
 
-                {/* Additional Details */}
-                <div className="bg-white dark:bg-gray-800 rounded-3xl shadow-xl border border-gray-100 dark:border-gray-700 p-8">
-                  <h3 className="text-xl font-bold text-gray-800 dark:text-gray-100 mb-6">Loan Details</h3>
+                  {/* Property Type */}
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 mb-2">
+                      Property Type
+                    </label>
+                    <select
+                      value={formData.propertyType}
+                      onChange={(e) => handleInputChange('propertyType', e.target.value as MortgageCalculation['propertyType'])}
+                      className="w-full px-4 py-3 border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent appearance-none bg-white transition-all duration-200 focus:scale-[1.01] shadow-sm"
+                    >
+                      <option value="single-family">Single Family Home</option>
+                      <option value="condo">Condominium</option>
+                      <option value="townhouse">Townhouse</option>
+                      <option value="multi-family">Multi-Family</option>
+                    </select>
 
-                  <div className="space-y-4">
-                    <div className="flex justify-between">
-                      <span className="text-gray-600 dark:text-gray-400">Principal Amount</span>
-                      <span className="font-semibold dark:text-gray-100">{formatCurrency(result.principalAmount)}</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span className="text-gray-600 dark:text-gray-400">Total Interest</span>
-                      <span className="font-semibold dark:text-gray-100">{formatCurrency(result.totalInterest)}</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span className="text-gray-600 dark:text-gray-400">Down Payment</span>
-                      <span className="font-semibold dark:text-gray-100">{result.downPaymentPercent}%</span>
-                    </div>
-                    {result.cmhcInsurance > 0 && (
-                      <div className="flex justify-between">
-                        <span className="text-gray-600 dark:text-gray-400">CMHC Insurance</span>
-                        <span className="font-semibold dark:text-gray-100">{formatCurrency(result.cmhcInsurance)}</span>
+                    {formData.propertyType === "condo" && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        Condo insurance covers your unit only, and half of your condo fees count toward GDS. Enter fees under Monthly Debts & Fees.
+                      </p>
+                    )}
+
+                    {formData.propertyType === "multi-family" && (
+                      <div className="grid grid-cols-2 gap-3 mt-3">
+                        <div>
+                          <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Units (incl. yours)</p>
+                          <select
+                            value={formData.numberOfUnits}
+                            onChange={(e) => handleInputChange('numberOfUnits', parseInt(e.target.value))}
+                            className="w-full px-3 py-2 border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent shadow-sm"
+                          >
+                            {[2, 3, 4].map(units => (
+                              <option key={units} value={units}>{units} units</option>
+                            ))}
+                          </select>
+                        </div>
+                        <div>
+                          <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Monthly rent from other units</p>
+                          <div className="relative">
+                            <DollarSign className="absolute left-2 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+                            <input
+                              type="number"
+                              value={formData.monthlyRentalIncome}
+                              onChange={(e) => handleInputChange('monthlyRentalIncome', e.target.value)}
+                              className="w-full pl-8 pr-3 py-2 border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent shadow-sm"
+                              placeholder="0"
+                            />
+                          </div>
+                          <FieldError message={fieldErrors.monthlyRentalIncome} />
+                        </div>
+                        <p className="col-span-2 text-xs text-gray-500 dark:text-gray-400">
+                          CMHC counts 100% of rental income for a duplex and 50% for three or four units when qualifying.
+                        </p>
                       </div>
                     )}
                   </div>
-                </div>
 
-                {/* Warnings */}
-                {result.warnings.length > 0 && (
-                  <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-3xl p-8">
-                    <div className="flex items-center gap-2 mb-4">
-                      <AlertTriangle className="w-5 h-5 text-amber-600 dark:text-amber-500" />
-                      <h3 className="text-lg font-bold text-amber-800 dark:text-amber-400">Important Considerations</h3>
+                  {/* Heating Type */}
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 mb-2">
+                      Heating Type
+                    </label>
+                    <select
+                      value={formData.heatingType}
+                      onChange={(e) => handleInputChange('heatingType', e.target.value as any)}
+                      className="w-full px-4 py-3 border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent appearance-none bg-white transition-all duration-200 focus:scale-[1.01] shadow-sm"
+                    >
+                      <option value="gas">Natural Gas</option>
+                      <option value="electric">Electric</option>
+                      <option value="oil">Oil</option>
+                      <option value="geothermal">Geothermal</option>
+                    </select>
+                  </div>
+
+                  {/* Household Income & Debts */}
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+                      Gross Household Income (Annual)
+                    </label>
+                    <div className="relative">
+                      <DollarSign className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+                      <input
+                        type="number"
+                        value={formData.grossAnnualIncome}
+                        onChange={(e) => handleInputChange('grossAnnualIncome', e.target.value)}
+                        className="w-full pl-10 pr-4 py-3 border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 focus:scale-[1.01] shadow-sm"
+                        placeholder="110,000"
+                      />
                     </div>
-                    <ul className="space-y-2">
-                      {result.warnings.map((warning, index) => (
-                        <li key={index} className="text-amber-700 dark:text-amber-300 text-sm">• {warning}</li>
-                      ))}
-                    </ul>
+                    <FieldError message={fieldErrors.grossAnnualIncome} />
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      Combined income of everyone on the mortgage, before tax.
+                    </p>
                   </div>
-                )}
-              </>
-            )}
 
-            {!result && (
-              <div className="bg-white dark:bg-gray-800 rounded-3xl shadow-xl border border-gray-100 dark:border-gray-700 p-12 flex flex-col items-center justify-center text-center h-full min-h-[600px]">
-                <div className="w-24 h-24 bg-gradient-to-br from-blue-50 to-indigo-50 dark:from-blue-900/20 dark:to-indigo-900/20 rounded-full flex items-center justify-center mb-8 shadow-inner">
-                  <Calculator className="w-12 h-12 text-blue-500 dark:text-blue-400 opacity-80" />
-                </div>
-                <h3 className="text-2xl font-bold text-gray-800 dark:text-gray-100 mb-4">
-                  Ready to Calculate?
-                </h3>
-                <p className="text-gray-600 dark:text-gray-400 max-w-sm mx-auto leading-relaxed mb-8">
-                  Enter your property details to get an instant estimate of your mortgage payments, tax, and insurance costs.
-                </p>
-                <div className="flex gap-2 opacity-30">
-                  <div className="w-2 h-2 rounded-full bg-blue-600"></div>
-                  <div className="w-2 h-2 rounded-full bg-blue-600"></div>
-                  <div className="w-2 h-2 rounded-full bg-blue-600"></div>
-                </div>
-              </div>
-            )}
-          </div>
-        </div>
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+                      Monthly Debts & Fees
+                    </label>
+                    <div className="grid grid-cols-2 gap-3">
+                      {([
+                        { field: 'monthlyCondoFees', label: 'Condo fees' },
+                        { field: 'monthlyCarLoanPayments', label: 'Car loans' },
+                        { field: 'monthlyCreditCardPayments', label: 'Credit cards' },
+                        { field: 'monthlySupportPayments', label: 'Support payments' },
+                        { field: 'monthlyOtherDebtPayments', label: 'Other debts' },
+                      ] as const).map(({ field, label }) => (
+                        <div key={field}>
+                          <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">{label}</p>
+                          <div className="relative">
+                            <DollarSign className="absolute left-2 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+                            <input
+                              type="number"
+                              value={formData[field]}
+                              onChange={(e) => handleInputChange(field, e.target.value)}
+                              className="w-full pl-8 pr-3 py-2 border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 shadow-sm"
+                              placeholder="0"
+                            />
+                          </div>
+                          <FieldError message={fieldErrors[field]} />
+                        </div>
+                      ))}
+                    </div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      Enter minimum monthly payments. Used for GDS/TDS affordability ratios.
+                    </p>
+                  </div>
 
-        {/* Winnipeg Fun Facts */}
-        {result && (
-          <div className="mt-16 bg-gradient-to-r from-blue-50 to-indigo-50 dark:from-blue-900/20 dark:to-indigo-900/20 rounded-3xl p-8 border border-blue-200 dark:border-blue-800">
-            <div className="max-w-4xl mx-auto">
-              <div className="text-center mb-8">
-                <h3 className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-indigo-600 dark:from-blue-400 dark:to-indigo-400 bg-clip-text text-transparent mb-2">
-                  Winnipeg Mortgage Calculator: Local Fun Facts 🏠
-                </h3>
-                <p className="text-gray-600 dark:text-gray-300">See how your mortgage payments stack up against Winnipeg's unique culture and landmarks</p>
-              </div>
+                  {/* Prepayments */}
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+                      Prepayments
+                    </label>
+                    <div className="grid grid-cols-3 gap-3">
+                      <div>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Annual lump sum</p>
+                        <div className="relative">
+                          <DollarSign className="absolute left-2 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+                          <input
+                            type="number"
+                            value={formData.annualLumpSumPrepayment}
+                            onChange={(e) => handleInputChange('annualLumpSumPrepayment', e.target.value)}
+                            className="w-full pl-8 pr-3 py-2 border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 shadow-sm"
+                            placeholder="0"
+                          />
+                        </div>
+                        <FieldError message={fieldErrors.annualLumpSumPrepayment} />
+                      </div>
+                      <div>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Lender cap</p>
+                        <div className="relative">
+                          <Percent className="absolute left-2 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+                          <input
+                            type="number"
+                            value={formData.prepaymentCapPercent}
+                            onChange={(e) => handleInputChange('prepaymentCapPercent', e.target.value)}
+                            className="w-full pl-8 pr-3 py-2 border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 shadow-sm"
+                            placeholder="15"
+                          />
+                        </div>
+                        <FieldError message={fieldErrors.prepaymentCapPercent} />
+                      </div>
+                      <div>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Payment increase</p>
+                        <div className="relative">
+                          <Percent className="absolute left-2 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+                          <input
+                            type="number"
+                            value={formData.paymentIncreasePercent}
+                            onChange={(e) => handleInputChange('paymentIncreasePercent', e.target.value)}
+                            className="w-full pl-8 pr-3 py-2 border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 shadow-sm"
+                            placeholder="0"
+                          />
+                        </div>
+                        <FieldError message={fieldErrors.paymentIncreasePercent} />
+                      </div>
+                    </div>
 
-              {(() => {
-                const funFacts = getWinnipegFunFacts(result);
-                const { bonusFacts, ...paymentFacts } = funFacts;
-                return (
-                  <div className="space-y-6">
-                    {/* Main payment breakdowns */}
-                    <div className="grid md:grid-cols-1 gap-6">
-                      {Object.entries(paymentFacts).map(([key, factData]) => (
-                        <div key={key} className="bg-white dark:bg-gray-800 rounded-2xl p-6 border border-blue-100 dark:border-gray-700 shadow-sm">
-                          <div className="flex items-center justify-between mb-3">
-                            <h4 className="text-lg font-bold text-gray-800 dark:text-gray-100">{factData.title}</h4>
-                            <span className="text-xl font-bold text-blue-600 dark:text-blue-400">{formatCurrency(factData.amount)}</span>
+                    <div className="mt-3 space-y-2">
+                      {formData.oneTimePrepayments.map((prepayment, index) => (
+                        <div key={index} className="flex items-center gap-2">
+                          <input
+                            type="date"
+                            value={prepayment.date}
+                            onChange={(e) => handleOneTimePrepaymentsChange(
+                              formData.oneTimePrepayments.map((item, i) => i === index ? { ...item, date: e.target.value } : item)
+                            )}
+                            className="flex-1 px-3 py-2 border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent shadow-sm"
+                          />
+                          <div className="relative flex-1">
+                            <DollarSign className="absolute left-2 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+                            <input
+                              type="number"
+                              value={prepayment.amount}
+                              onChange={(e) => handleOneTimePrepaymentsChange(
+                                formData.oneTimePrepayments.map((item, i) => i === index ? { ...item, amount: e.target.value } : item)
+                              )}
+                              className="w-full pl-8 pr-3 py-2 border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent shadow-sm"
+                              placeholder="0"
+                            />
                           </div>
-                          <p className="text-gray-600 dark:text-gray-300 leading-relaxed">{factData.fact}</p>
+                          <button
+                            type="button"
+                            onClick={() => handleOneTimePrepaymentsChange(formData.oneTimePrepayments.filter((_, i) => i !== index))}
+                            className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                            aria-label="Remove prepayment"
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
                         </div>
                       ))}
+                      {renderListErrors('oneTimePrepayments')}
+                      <button
+                        type="button"
+                        onClick={() => handleOneTimePrepaymentsChange([
+                          ...formData.oneTimePrepayments,
+                          { date: new Date().toISOString().slice(0, 10), amount: 5000 },
+                        ])}
+                        className="inline-flex items-center gap-1 text-xs font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                      >
+                        <Plus className="w-3 h-3" />
+                        Add one-time prepayment
+                      </button>
+                    </div>
+                  </div>
+
+                  {/* First Time Buyer */}
+                  <div className="flex items-center gap-3">
+                    <input
+                      type="checkbox"
+                      id="firstTimeBuyer"
+                      checked={formData.isFirstTimeBuyer}
+                      onChange={(e) => handleInputChange('isFirstTimeBuyer', e.target.checked)}
+                      className="w-5 h-5 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                    />
+                    <label htmlFor="firstTimeBuyer" className="text-sm font-semibold text-gray-700 dark:text-gray-300">
+                      First-time home buyer
+                    </label>
+                  </div>
+
+                  <div className="flex gap-3">
+                    <button
+                      onClick={handleReset}
+                      className="flex-1 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 py-4 px-6 rounded-xl font-semibold text-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-all duration-200 shadow-lg hover:shadow-xl flex items-center justify-center gap-2"
+                    >
+                      <RotateCcw className="w-5 h-5" />
+                      Reset
+                    </button>
+                  </div>
+
+                  {!validation.success && result && (
+                    <div className="flex items-center gap-2 p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-xl text-yellow-700 dark:text-yellow-400">
+                      <Info className="w-5 h-5" />
+                      <p className="text-sm font-medium">Results show your last valid inputs. Fix the fields marked in red to update them.</p>
                     </div>
+                  )}
 
-                    {/* Bonus facts */}
-                    <div className="bg-white dark:bg-gray-800 rounded-2xl p-6 border border-indigo-100 dark:border-gray-700 shadow-sm">
-                      <h4 className="text-lg font-bold text-gray-800 dark:text-gray-100 mb-4 flex items-center gap-2">
-                        Bonus: Winnipeg Mortgage Math 🧮
-                      </h4>
-                      <ul className="space-y-3">
-                        {bonusFacts.map((fact, index) => (
-                          <li key={index} className="text-gray-600 dark:text-gray-300 leading-relaxed flex items-start gap-2">
-                            <span className="text-indigo-500 dark:text-indigo-400 font-bold">•</span>
-                            <span>{fact}</span>
-                          </li>
+                  {!result && Object.keys(fieldErrors).length > 0 && (
+                    <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl text-red-600 dark:text-red-400">
+                      <p className="text-sm font-semibold mb-2">These inputs can't be calculated yet:</p>
+                      <ul className="space-y-1 text-sm">
+                        {Object.entries(fieldErrors).map(([field, message]) => (
+                          <li key={field}>{message}</li>
                         ))}
                       </ul>
                     </div>
-                  </div>
-                );
-              })()}
-            </div>
+                  )}
 
-            {/* What If Section */}
-            <div className="mt-16 bg-gradient-to-r from-purple-50 to-pink-50 dark:from-purple-900/20 dark:to-pink-900/20 rounded-3xl p-8 border border-purple-200 dark:border-purple-800">
-              <div className="max-w-4xl mx-auto">
-                <div className="text-center mb-8">
-                  <h3 className="text-2xl font-bold bg-gradient-to-r from-purple-600 to-pink-600 dark:from-purple-400 dark:to-pink-400 bg-clip-text text-transparent mb-2">
-                    💸 What If You Weren't Taxed? 💸
-                  </h3>
-                  <p className="text-gray-600 dark:text-gray-300">Dreaming about what you could do with that {formatCurrency(result.monthlyPropertyTax * 12)} in annual property taxes? Let's explore!</p>
+                  {error && (
+                    <div className="flex items-center gap-2 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl text-red-600 dark:text-red-400">
+                      <AlertTriangle className="w-5 h-5" />
+                      <p className="text-sm font-medium">{error}</p>
+                    </div>
+                  )}
                 </div>
+              </div>
+
+              {/* Results */}
+              <div className="space-y-6">
+                {result && (
+                  <>
+                    {/* Main Results */}
+                    <div className="bg-white dark:bg-gray-800 rounded-3xl shadow-xl border border-gray-100 dark:border-gray-700 p-8">
+                      <div className="flex items-center justify-between gap-4 mb-6">
+                        <h3 className="text-2xl font-bold text-gray-800 dark:text-gray-100">Your Monthly Payment</h3>
+                        <button
+                          type="button"
+                          onClick={() => window.print()}
+                          className="inline-flex items-center gap-2 px-4 py-2 text-sm font-semibold text-blue-600 dark:text-blue-400 border border-blue-200 dark:border-blue-800 rounded-xl hover:bg-blue-50 dark:hover:bg-gray-700 transition-colors"
+                        >
+                          <Printer className="w-4 h-4" />
+                          Print Report
+                        </button>
+                      </div>
+
+                      {/* Chart Visualization */}
+                      <div className="grid sm:grid-cols-2 gap-4 items-center">
+                        <DonutChart data={[
+                          { label: 'Mortgage', value: result.monthlyPayment, color: '#2563eb' }, // blue-600
+                          { label: 'Property Tax', value: result.monthlyPropertyTax, color: '#4f46e5' }, // indigo-600
+                          { label: 'Insurance', value: result.monthlyInsurance, color: '#9333ea' }, // purple-600
+                          { label: 'Utilities', value: result.monthlyUtilities, color: '#db2777' }, // pink-600
+                          ...(result.monthlyCondoFees > 0
+                            ? [{ label: 'Condo Fees', value: result.monthlyCondoFees, color: '#0d9488' }] // teal-600
+                            : []),
+                        ]} />
+                        {schedule && (
+                          <BalanceChart
+                            startingBalance={result.principalAmount + result.cmhcInsurance}
+                            data={schedule.yearlySummaries}
+                          />
+                        )}
+                      </div>
 
-                {(() => {
-                  const annualPropertyTax = result.monthlyPropertyTax * 12;
-                  const whatIfScenarios = [
-                    {
-                      emoji: "✈️",
-                      title: "Travel the World",
-                      description: `You could take ${Math.floor(annualPropertyTax / 3500)} annual trips to Europe (round-trip flights from Winnipeg), or ${Math.floor(annualPropertyTax / 1200)} trips to Vancouver to visit family. That's enough for a new adventure every ${annualPropertyTax > 7000 ? 'few months' : annualPropertyTax > 3500 ? '6 months' : 'year'}!`
-                    },
-                    {
-                      emoji: "🍁",
-                      title: "Winnipeg Jets Season Tickets",
-                      description: `${formatCurrency(annualPropertyTax)} could get you ${Math.floor(annualPropertyTax / 3500)} season ticket packages for the Winnipeg Jets at Canada Life Centre. You'd be cheering "True North!" from premium seats for ${annualPropertyTax > 7000 ? 'multiple seasons' : 'a full season'} with money left over for concessions.`
-                    },
-                    {
-                      emoji: "🏎️",
-                      title: "The Ultimate Manitoba Road Trip Machine",
-                      description: `That tax money could buy you a ${annualPropertyTax > 15000 ? 'brand new' : annualPropertyTax > 8000 ? 'nearly new' : 'reliable used'} vehicle every ${Math.floor(25000 / annualPropertyTax)} years. Perfect for exploring Manitoba's ${Math.floor(annualPropertyTax / 100)} provincial parks, or making ${Math.floor(annualPropertyTax / 80)} trips to Grand Beach for epic sunsets.`
-                    },
-                    {
-                      emoji: "🍻",
-                      title: "Local Brewery Enthusiast",
-                      description: `You could buy ${Math.floor(annualPropertyTax / 7)} craft beers from local breweries like Half Pints, Torque, or Little Brown Jug. That's enough to sample every beer in Winnipeg ${Math.floor((annualPropertyTax / 7) / 200)} times over, or host epic backyard parties for your entire neighborhood.`
-                    },
-                    {
-                      emoji: "🥶",
-                      title: "Winter Survival Specialist",
-                      description: `${formatCurrency(annualPropertyTax)} could buy you ${Math.floor(annualPropertyTax / 800)} top-tier Canada Goose parkas, ${Math.floor(annualPropertyTax / 200)} pairs of premium winter boots, and ${Math.floor(annualPropertyTax / 50)} ice fishing shelters. You'd be the warmest person in Manitoba during those -40°C blizzards.`
-                    },
-                    {
-                      emoji: "🎭",
-                      title: "Cultural Connoisseur",
-                      description: `You could attend ${Math.floor(annualPropertyTax / 150)} shows at the Royal Manitoba Theatre Centre, ${Math.floor(annualPropertyTax / 80)} concerts at the Burton Cummings Theatre, or visit the Canadian Museum for Human Rights ${Math.floor(annualPropertyTax / 18)} times. That's enough culture to become Winnipeg's unofficial arts ambassador.`
-                    },
-                    {
-                      emoji: "🥩",
-                      title: "Prairie Foodie Paradise",
-                      description: `That money could get you ${Math.floor(annualPropertyTax / 45)} fine dining experiences at 529 Wellington, ${Math.floor(annualPropertyTax / 12)} meals at The Keg, or ${Math.floor(annualPropertyTax / 6)} legendary Fat Boy burgers. You could eat like royalty at Winnipeg's best restaurants for ${annualPropertyTax > 5000 ? 'months' : 'weeks'}.`
-                    },
-                    {
-                      emoji: "🏡",
-                      title: "Home Improvement Mogul",
-                      description: `${formatCurrency(annualPropertyTax)} could fund a ${annualPropertyTax > 10000 ? 'major kitchen renovation' : annualPropertyTax > 5000 ? 'bathroom upgrade' : 'beautiful deck'}, or you could install a ${annualPropertyTax > 15000 ? 'luxury hot tub' : 'nice pool'} to beat those scorching Manitoba summers that can hit +35°C.`
-                    }
-                  ];
-
-                  return (
-                    <div className="grid md:grid-cols-2 gap-6">
-                      {whatIfScenarios.map((scenario, index) => (
-                        <div key={index} className="bg-white dark:bg-gray-800 rounded-2xl p-6 border border-purple-100 dark:border-gray-700 shadow-sm hover:shadow-md transition-shadow duration-200">
-                          <div className="flex items-center gap-3 mb-3">
-                            <span className="text-2xl">{scenario.emoji}</span>
-                            <h4 className="text-lg font-bold text-gray-800 dark:text-gray-100">{scenario.title}</h4>
+                      <div className="text-center mb-8">
+                        <p className="text-gray-600 dark:text-gray-300">Total monthly housing cost</p>
+                      </div>
+
+                      <div className="grid grid-cols-2 gap-4 mb-6">
+                        <div className="p-4 bg-gray-50 dark:bg-gray-700 rounded-xl">
+                          <p className="text-sm text-gray-600 dark:text-gray-400 mb-1">Mortgage Payment</p>
+                          <p className="text-xl font-bold text-gray-800 dark:text-gray-100">{formatCurrency(result.monthlyPayment)}</p>
+                        </div>
+                        <div className="p-4 bg-gray-50 dark:bg-gray-700 rounded-xl">
+                          <p className="text-sm text-gray-600 dark:text-gray-400 mb-1">Property Tax</p>
+                          <p className="text-xl font-bold text-gray-800 dark:text-gray-100">{formatCurrency(result.monthlyPropertyTax)}</p>
+                        </div>
+                        <div className="p-4 bg-gray-50 dark:bg-gray-700 rounded-xl">
+                          <p className="text-sm text-gray-600 dark:text-gray-400 mb-1">Home Insurance</p>
+                          <p className="text-xl font-bold text-gray-800 dark:text-gray-100">{formatCurrency(result.monthlyInsurance)}</p>
+                        </div>
+                        <div className="p-4 bg-gray-50 dark:bg-gray-700 rounded-xl">
+                          <p className="text-sm text-gray-600 dark:text-gray-400 mb-1">Utilities (Est.)</p>
+                          <p className="text-xl font-bold text-gray-800 dark:text-gray-100">{formatCurrency(result.monthlyUtilities)}</p>
+                        </div>
+                        {result.monthlyCondoFees > 0 && (
+                          <div className="p-4 bg-gray-50 dark:bg-gray-700 rounded-xl">
+                            <p className="text-sm text-gray-600 dark:text-gray-400 mb-1">Condo Fees</p>
+                            <p className="text-xl font-bold text-gray-800 dark:text-gray-100">{formatCurrency(result.monthlyCondoFees)}</p>
                           </div>
-                          <p className="text-gray-600 dark:text-gray-300 leading-relaxed">{scenario.description}</p>
+                        )}
+                      </div>
+
+                      {/* Affordability Rating */}
+                      <div className={`p-4 rounded-xl border-2 ${getAffordabilityColor(result.affordabilityRating)}`}>
+                        <div className="flex items-center gap-2 mb-2">
+                          {result.affordabilityRating === "excellent" || result.affordabilityRating === "good" ? (
+                            <CheckCircle className="w-5 h-5" />
+                          ) : (
+                            <Info className="w-5 h-5" />
+                          )}
+                          <span className="font-semibold capitalize">
+                            {result.affordabilityRating} Affordability
+                          </span>
                         </div>
-                      ))}
+                        <div className="grid grid-cols-2 gap-4 my-3">
+                          <div>
+                            <p className="text-xs uppercase tracking-wide opacity-80">GDS Ratio</p>
+                            <p className="text-lg font-bold">
+                              {result.debtServiceRatios.gds.toFixed(1)}%
+                              <span className="text-xs font-medium opacity-80"> / {result.debtServiceRatios.gdsLimit}% max</span>
+                            </p>
+                          </div>
+                          <div>
+                            <p className="text-xs uppercase tracking-wide opacity-80">TDS Ratio</p>
+                            <p className="text-lg font-bold">
+                              {result.debtServiceRatios.tds.toFixed(1)}%
+                              <span className="text-xs font-medium opacity-80"> / {result.debtServiceRatios.tdsLimit}% max</span>
+                            </p>
+                          </div>
+                        </div>
+                        {result.monthlyRentalIncomeCounted > 0 && (
+                          <p className="text-xs opacity-80 mb-2">
+                            Includes {formatCurrency(result.monthlyRentalIncomeCounted)}/month of rental income in qualifying income.
+                          </p>
+                        )}
+                        {result.debtServiceRatios.explanations.length > 0 ? (
+                          <ul className="space-y-1">
+                            {result.debtServiceRatios.explanations.map((explanation, index) => (
+                              <li key={index} className="text-sm dark:text-gray-700">• {explanation}</li>
+                            ))}
+                          </ul>
+                        ) : (
+                          <p className="text-sm dark:text-gray-700">
+                            Within CMHC debt service limits for your household income and debts.
+                          </p>
+                        )}
+                      </div>
+                    </div>
+
+                    {/* Additional Details */}
+                    <div className="bg-white dark:bg-gray-800 rounded-3xl shadow-xl border border-gray-100 dark:border-gray-700 p-8">
+                      <h3 className="text-xl font-bold text-gray-800 dark:text-gray-100 mb-6">Loan Details</h3>
+
+                      <div className="space-y-4">
+                        {result.paymentFrequency !== "monthly" && (
+                          <div className="flex justify-between">
+                            <span className="text-gray-600 dark:text-gray-400">{paymentFrequencies[result.paymentFrequency].label} Payment</span>
+                            <span className="font-semibold dark:text-gray-100">{formatCurrency(result.regularPayment)}</span>
+                          </div>
+                        )}
+                        <div className="flex justify-between">
+                          <span className="text-gray-600 dark:text-gray-400">Principal Amount</span>
+                          <span className="font-semibold dark:text-gray-100">{formatCurrency(result.principalAmount)}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-gray-600 dark:text-gray-400">Total Interest</span>
+                          <span className="font-semibold dark:text-gray-100">{formatCurrency(result.totalInterest)}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-gray-600 dark:text-gray-400">Mortgage-Free Date</span>
+                          <span className="font-semibold dark:text-gray-100">{result.payoffDate}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-gray-600 dark:text-gray-400">Effective Annual Rate</span>
+                          <span className="font-semibold dark:text-gray-100">{result.effectiveAnnualRate}%</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-gray-600 dark:text-gray-400">Down Payment</span>
+                          <span className="font-semibold dark:text-gray-100">{result.downPaymentPercent}%</span>
+                        </div>
+                        {result.mortgageInsurance.required && (
+                          <>
+                            <div className="flex justify-between">
+                              <span className="text-gray-600 dark:text-gray-400">
+                                {mortgageInsurers[result.mortgageInsurance.insurer].label} Insurance ({result.mortgageInsurance.premiumRate}%)
+                              </span>
+                              <span className="font-semibold dark:text-gray-100">{formatCurrency(result.mortgageInsurance.premium)}</span>
+                            </div>
+                            <div className="flex justify-between">
+                              <span className="text-gray-600 dark:text-gray-400">PST on Premium (paid at closing)</span>
+                              <span className="font-semibold dark:text-gray-100">{formatCurrency(result.mortgageInsurance.provincialSalesTax)}</span>
+                            </div>
+                          </>
+                        )}
+                      </div>
+                    </div>
+
+                    {result.prepaymentSummary.interestSaved > 0 && (
+                      <PrepaymentComparison result={result} />
+                    )}
+
+                    <RenewalScenarios renewal={result.renewal} />
+
+                    {result.variableRate && (
+                      <VariableRateDetails analysis={result.variableRate} />
+                    )}
+
+                    <FrequencyComparison comparison={result.frequencyComparison} selected={result.paymentFrequency} />
+
+                    {resultInputs && <SensitivityHeatmap baseScenario={resultInputs} />}
+
+                    {/* Property Tax Breakdown */}
+                    <div className="bg-white dark:bg-gray-800 rounded-3xl shadow-xl border border-gray-100 dark:border-gray-700 p-8">
+                      <h3 className="text-xl font-bold text-gray-800 dark:text-gray-100 mb-2">Property Tax</h3>
+                      <p className="text-sm text-gray-500 dark:text-gray-400 mb-6">
+                        {result.propertyTax.residentialPortion}% of the {formatCurrency(result.propertyTax.assessedValue)} assessed value ({formatCurrency(result.propertyTax.portionedAssessment)}) is taxable.
+                      </p>
+
+                      <div className="space-y-4">
+                        {[
+                          { label: `Municipal Tax (${result.propertyTax.municipalMillRate} mills)`, amount: result.propertyTax.municipalTax },
+                          { label: `School Tax: ${result.propertyTax.schoolDivision} (${result.propertyTax.educationMillRate} mills)`, amount: result.propertyTax.educationTax },
+                          ...(result.propertyTax.frontageLevy > 0
+                            ? [{ label: `Frontage Levy (${result.propertyTax.lotFrontage} ft)`, amount: result.propertyTax.frontageLevy }]
+                            : []),
+                          { label: "Education Property Tax Credit", amount: -result.propertyTax.educationPropertyTaxCredit },
+                        ].map(item => (
+                          <div key={item.label} className="flex justify-between gap-4">
+                            <span className="text-gray-600 dark:text-gray-400">{item.label}</span>
+                            <span className={`font-semibold ${item.amount < 0 ? 'text-green-600 dark:text-green-400' : 'dark:text-gray-100'}`}>{formatCurrency(item.amount)}</span>
+                          </div>
+                        ))}
+                        <div className="flex justify-between pt-4 border-t border-gray-200 dark:border-gray-700">
+                          <span className="font-semibold text-gray-800 dark:text-gray-100">Annual Property Tax</span>
+                          <span className="text-xl font-bold text-blue-600 dark:text-blue-400">{formatCurrency(result.propertyTax.annualTax)}</span>
+                        </div>
+                      </div>
                     </div>
-                  );
-                })()}
-
-                <div className="mt-8 bg-white dark:bg-gray-800 rounded-2xl p-6 border border-pink-100 dark:border-gray-700 shadow-sm">
-                  <div className="text-center">
-                    <h4 className="text-lg font-bold text-gray-800 dark:text-gray-100 mb-3 flex items-center justify-center gap-2">
-                      <span>💭</span>
-                      The Reality Check
-                      <span>💭</span>
-                    </h4>
-                    <p className="text-gray-600 dark:text-gray-300 leading-relaxed max-w-3xl mx-auto">
-                      While it's fun to dream about tax-free living, property taxes in Winnipeg fund essential services like snow removal
-                      (crucial for those 5+ months of winter!), road maintenance, public transit, parks, libraries, and emergency services.
-                      Plus, at {((result.monthlyPropertyTax * 12 / formData.propertyValue) * 100).toFixed(2)}% annually,
-                      Winnipeg's property tax rate is actually quite reasonable compared to many other Canadian cities.
-                      Your {formatCurrency(result.monthlyPropertyTax * 12)} helps keep the city running smoothly year-round! 🏙️
+
+                    {/* Closing Costs */}
+                    <div className="bg-white dark:bg-gray-800 rounded-3xl shadow-xl border border-gray-100 dark:border-gray-700 p-8">
+                      <h3 className="text-xl font-bold text-gray-800 dark:text-gray-100 mb-6">Closing Costs</h3>
+
+                      <div className="space-y-4">
+                        {[
+                          { label: "Manitoba Land Transfer Tax", amount: result.closingCosts.landTransferTax },
+                          { label: "Title Registration Fees", amount: result.closingCosts.titleRegistrationFees },
+                          { label: "Legal Fees (Est.)", amount: result.closingCosts.legalFees },
+                          { label: "Home Inspection (Est.)", amount: result.closingCosts.homeInspection },
+                          { label: "Appraisal (Est.)", amount: result.closingCosts.appraisal },
+                          { label: "Property Tax Adjustment", amount: result.closingCosts.propertyTaxAdjustment },
+                          { label: "PST on Mortgage Insurance", amount: result.closingCosts.mortgageInsuranceTax },
+                        ].filter(item => item.label !== "PST on Mortgage Insurance" || item.amount > 0).map(item => (
+                          <div key={item.label} className="flex justify-between">
+                            <span className="text-gray-600 dark:text-gray-400">{item.label}</span>
+                            <span className="font-semibold dark:text-gray-100">{formatCurrency(item.amount)}</span>
+                          </div>
+                        ))}
+                        <div className="flex justify-between pt-4 border-t border-gray-200 dark:border-gray-700">
+                          <span className="text-gray-600 dark:text-gray-400">Total Closing Costs</span>
+                          <span className="font-semibold dark:text-gray-100">{formatCurrency(result.closingCosts.totalClosingCosts)}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="font-semibold text-gray-800 dark:text-gray-100">Cash Needed at Closing</span>
+                          <span className="text-xl font-bold text-blue-600 dark:text-blue-400">{formatCurrency(result.closingCosts.cashNeededAtClosing)}</span>
+                        </div>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">Includes your {formatCurrency(result.closingCosts.cashNeededAtClosing - result.closingCosts.totalClosingCosts)} down payment.</p>
+                      </div>
+
+                      {result.closingCosts.firstTimeBuyerNotes.length > 0 && (
+                        <div className="mt-6 p-4 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-xl">
+                          <p className="text-sm font-semibold text-blue-800 dark:text-blue-300 mb-2">First-Time Buyer Programs</p>
+                          <ul className="space-y-1">
+                            {result.closingCosts.firstTimeBuyerNotes.map((note, index) => (
+                              <li key={index} className="text-sm text-blue-700 dark:text-blue-300">• {note}</li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+                    </div>
+
+                    {/* Stress Test */}
+                    <div className="bg-white dark:bg-gray-800 rounded-3xl shadow-xl border border-gray-100 dark:border-gray-700 p-8">
+                      <div className="flex items-center gap-3 mb-6">
+                        {result.stressTest.passes ? (
+                          <ShieldCheck className="w-6 h-6 text-green-600" />
+                        ) : (
+                          <ShieldAlert className="w-6 h-6 text-red-600" />
+                        )}
+                        <h3 className="text-xl font-bold text-gray-800 dark:text-gray-100">Mortgage Stress Test</h3>
+                        <span className={`ml-auto px-3 py-1 rounded-full text-sm font-semibold border ${result.stressTest.passes ? getAffordabilityColor("excellent") : getAffordabilityColor("poor")}`}>
+                          {result.stressTest.passes ? "Pass" : "Fail"}
+                        </span>
+                      </div>
+
+                      <div className="space-y-4">
+                        <div className="flex justify-between">
+                          <span className="text-gray-600 dark:text-gray-400">Qualifying Rate</span>
+                          <span className="font-semibold dark:text-gray-100">{result.stressTest.qualifyingRate}%</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-gray-600 dark:text-gray-400">Payment at Qualifying Rate</span>
+                          <span className="font-semibold dark:text-gray-100">{formatCurrency(result.stressTest.qualifyingPayment)}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-gray-600 dark:text-gray-400">GDS / TDS at Qualifying Rate</span>
+                          <span className="font-semibold dark:text-gray-100">
+                            {result.stressTest.debtServiceRatios.gds.toFixed(1)}% / {result.stressTest.debtServiceRatios.tds.toFixed(1)}%
+                          </span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-gray-600 dark:text-gray-400">Maximum Qualifying Mortgage</span>
+                          <span className="font-semibold dark:text-gray-100">{formatCurrency(result.stressTest.maxQualifyingMortgage)}</span>
+                        </div>
+                      </div>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-4">
+                        OSFI Guideline B-20: you must qualify at the greater of your contract rate + 2% or 5.25%.
+                      </p>
+                    </div>
+
+                    {/* Warnings */}
+                    {result.warnings.length > 0 && (
+                      <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-3xl p-8">
+                        <div className="flex items-center gap-2 mb-4">
+                          <AlertTriangle className="w-5 h-5 text-amber-600 dark:text-amber-500" />
+                          <h3 className="text-lg font-bold text-amber-800 dark:text-amber-400">Important Considerations</h3>
+                        </div>
+                        <ul className="space-y-2">
+                          {result.warnings.map((warning, index) => (
+                            <li key={index} className="text-amber-700 dark:text-amber-300 text-sm">• {warning}</li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+
+                    <Link
+                      to="/rent-vs-buy"
+                      state={validInputs}
+                      className="flex items-center justify-between gap-4 bg-white dark:bg-gray-800 rounded-3xl shadow-xl border border-gray-100 dark:border-gray-700 p-6 hover:border-blue-300 dark:hover:border-blue-700 transition-all duration-200"
+                    >
+                      <div>
+                        <h3 className="text-lg font-bold text-gray-800 dark:text-gray-100">Should you rent instead?</h3>
+                        <p className="text-sm text-gray-500 dark:text-gray-400">Compare net worth from buying this home against renting and investing.</p>
+                      </div>
+                      <ArrowRight className="w-5 h-5 text-blue-600 dark:text-blue-400 shrink-0" />
+                    </Link>
+
+                    <SavedScenarios formData={validInputs} />
+
+                    {resultInputs && (
+                      <ExportDownloads inputs={resultInputs} result={result} schedule={schedule} />
+                    )}
+                  </>
+                )}
+
+                {!result && (
+                  <div className="bg-white dark:bg-gray-800 rounded-3xl shadow-xl border border-gray-100 dark:border-gray-700 p-12 flex flex-col items-center justify-center text-center h-full min-h-[600px]">
+                    <div className="w-24 h-24 bg-gradient-to-br from-blue-50 to-indigo-50 dark:from-blue-900/20 dark:to-indigo-900/20 rounded-full flex items-center justify-center mb-8 shadow-inner">
+                      <Calculator className="w-12 h-12 text-blue-500 dark:text-blue-400 opacity-80" />
+                    </div>
+                    <h3 className="text-2xl font-bold text-gray-800 dark:text-gray-100 mb-4">
+                      Ready to Calculate?
+                    </h3>
+                    <p className="text-gray-600 dark:text-gray-400 max-w-sm mx-auto leading-relaxed mb-8">
+                      Enter your property details to get an instant estimate of your mortgage payments, tax, and insurance costs.
                     </p>
+                    <div className="flex gap-2 opacity-30">
+                      <div className="w-2 h-2 rounded-full bg-blue-600"></div>
+                      <div className="w-2 h-2 rounded-full bg-blue-600"></div>
+                      <div className="w-2 h-2 rounded-full bg-blue-600"></div>
+                    </div>
                   </div>
-                </div>
+                )}
               </div>
             </div>
-          </div>
-        )}
 
-        {/* Comprehensive Disclaimer */}
-        <div className="mt-16 bg-gray-50 dark:bg-gray-800 rounded-3xl p-8 border border-gray-200 dark:border-gray-700">
-          <div className="max-w-4xl mx-auto">
-            <h3 className="text-lg font-bold text-gray-800 dark:text-gray-100 mb-4 text-center">Important Disclaimer</h3>
+            {/* Amortization Schedule */}
+            {result && schedule && (
+              <div className="mt-8">
+                <AmortizationTable schedule={schedule} />
+              </div>
+            )}
 
-            <div className="space-y-4 text-sm text-gray-600 dark:text-gray-300 leading-relaxed">
-              <p>
-                <strong>Not Financial Advice:</strong> This calculator provides estimates only and should not be considered as financial, legal, or tax advice.
-                All calculations are for informational purposes and are not a guarantee of loan approval or final mortgage terms.
-              </p>
+            {/* Local Fun Facts */}
+            {result && localFunFacts && (
+              <div className="mt-16 bg-gradient-to-r from-blue-50 to-indigo-50 dark:from-blue-900/20 dark:to-indigo-900/20 rounded-3xl p-8 border border-blue-200 dark:border-blue-800">
+                <div className="max-w-4xl mx-auto">
+                  <div className="text-center mb-8">
+                    <h3 className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-indigo-600 dark:from-blue-400 dark:to-indigo-400 bg-clip-text text-transparent mb-2">
+                      {municipalityName} Mortgage Calculator: Local Fun Facts 🏠
+                    </h3>
+                    <p className="text-gray-600 dark:text-gray-300">See how your mortgage payments stack up against {municipalityName}'s unique culture and landmarks</p>
+                  </div>
 
-              <p>
-                <strong>Accuracy of Information:</strong> While we strive to use current Winnipeg market data, interest rates, property tax rates,
-                insurance costs, and utility estimates may vary significantly based on specific properties, lenders, and individual circumstances.
-                Actual costs may be higher or lower than estimated.
-              </p>
+                  {(() => {
+                    const { bonusFacts, ...paymentFacts } = localFunFacts;
+                    return (
+                      <div className="space-y-6">
+                        {/* Main payment breakdowns */}
+                        <div className="grid md:grid-cols-1 gap-6">
+                          {Object.entries(paymentFacts).map(([key, factData]) => (
+                            <div key={key} className="bg-white dark:bg-gray-800 rounded-2xl p-6 border border-blue-100 dark:border-gray-700 shadow-sm">
+                              <div className="flex items-center justify-between mb-3">
+                                <h4 className="text-lg font-bold text-gray-800 dark:text-gray-100">{factData.title}</h4>
+                                <span className="text-xl font-bold text-blue-600 dark:text-blue-400">{formatCurrency(factData.amount)}</span>
+                              </div>
+                              <p className="text-gray-600 dark:text-gray-300 leading-relaxed">{factData.fact}</p>
+                            </div>
+                          ))}
+                        </div>
 
-              <p>
-                <strong>Rate Fluctuations:</strong> Interest rates change frequently and may differ substantially from those shown.
-                Mortgage rates depend on credit score, debt-to-income ratio, employment history, down payment amount, and other factors
-                not considered in this calculator.
-              </p>
+                        {/* Bonus facts */}
+                        <div className="bg-white dark:bg-gray-800 rounded-2xl p-6 border border-indigo-100 dark:border-gray-700 shadow-sm">
+                          <h4 className="text-lg font-bold text-gray-800 dark:text-gray-100 mb-4 flex items-center gap-2">
+                            Bonus: {municipalityName} Mortgage Math 🧮
+                          </h4>
+                          <ul className="space-y-3">
+                            {bonusFacts.map((fact, index) => (
+                              <li key={index} className="text-gray-600 dark:text-gray-300 leading-relaxed flex items-start gap-2">
+                                <span className="text-indigo-500 dark:text-indigo-400 font-bold">•</span>
+                                <span>{fact}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      </div>
+                    );
+                  })()}
+                </div>
 
-              <p>
-                <strong>Regional Specificity:</strong> This calculator is designed for Winnipeg, Manitoba properties. Tax rates, insurance costs,
-                and utility estimates are based on Winnipeg averages and may not apply to other municipalities or provinces.
-              </p>
+                {/* What If Section (Winnipeg landmarks) */}
+                {result.municipality === "winnipeg" && (
+                  <div className="mt-16 bg-gradient-to-r from-purple-50 to-pink-50 dark:from-purple-900/20 dark:to-pink-900/20 rounded-3xl p-8 border border-purple-200 dark:border-purple-800">
+                    <div className="max-w-4xl mx-auto">
+                      <div className="text-center mb-8">
+                        <h3 className="text-2xl font-bold bg-gradient-to-r from-purple-600 to-pink-600 dark:from-purple-400 dark:to-pink-400 bg-clip-text text-transparent mb-2">
+                          💸 What If You Weren't Taxed? 💸
+                        </h3>
+                        <p className="text-gray-600 dark:text-gray-300">Dreaming about what you could do with that {formatCurrency(result.monthlyPropertyTax * 12)} in annual property taxes? Let's explore!</p>
+                      </div>
 
-              <p>
-                <strong>Additional Costs:</strong> Homeownership involves additional costs not included in these calculations, such as
-                legal fees, home inspection fees, moving costs, maintenance, repairs, condo fees, special assessments,
-                and potential mortgage default insurance premiums that may vary.
-              </p>
+                      {(() => {
+                        const annualPropertyTax = result.monthlyPropertyTax * 12;
+                        const whatIfScenarios = [
+                          {
+                            emoji: "✈️",
+                            title: "Travel the World",
+                            description: `You could take ${Math.floor(annualPropertyTax / 3500)} annual trips to Europe (round-trip flights from Winnipeg), or ${Math.floor(annualPropertyTax / 1200)} trips to Vancouver to visit family. That's enough for a new adventure every ${annualPropertyTax > 7000 ? 'few months' : annualPropertyTax > 3500 ? '6 months' : 'year'}!`
+                          },
+                          {
+                            emoji: "🍁",
+                            title: "Winnipeg Jets Season Tickets",
+                            description: `${formatCurrency(annualPropertyTax)} could get you ${Math.floor(annualPropertyTax / 3500)} season ticket packages for the Winnipeg Jets at Canada Life Centre. You'd be cheering "True North!" from premium seats for ${annualPropertyTax > 7000 ? 'multiple seasons' : 'a full season'} with money left over for concessions.`
+                          },
+                          {
+                            emoji: "🏎️",
+                            title: "The Ultimate Manitoba Road Trip Machine",
+                            description: `That tax money could buy you a ${annualPropertyTax > 15000 ? 'brand new' : annualPropertyTax > 8000 ? 'nearly new' : 'reliable used'} vehicle every ${Math.floor(25000 / annualPropertyTax)} years. Perfect for exploring Manitoba's ${Math.floor(annualPropertyTax / 100)} provincial parks, or making ${Math.floor(annualPropertyTax / 80)} trips to Grand Beach for epic sunsets.`
+                          },
+                          {
+                            emoji: "🍻",
+                            title: "Local Brewery Enthusiast",
+                            description: `You could buy ${Math.floor(annualPropertyTax / 7)} craft beers from local breweries like Half Pints, Torque, or Little Brown Jug. That's enough to sample every beer in Winnipeg ${Math.floor((annualPropertyTax / 7) / 200)} times over, or host epic backyard parties for your entire neighborhood.`
+                          },
+                          {
+                            emoji: "🥶",
+                            title: "Winter Survival Specialist",
+                            description: `${formatCurrency(annualPropertyTax)} could buy you ${Math.floor(annualPropertyTax / 800)} top-tier Canada Goose parkas, ${Math.floor(annualPropertyTax / 200)} pairs of premium winter boots, and ${Math.floor(annualPropertyTax / 50)} ice fishing shelters. You'd be the warmest person in Manitoba during those -40°C blizzards.`
+                          },
+                          {
+                            emoji: "🎭",
+                            title: "Cultural Connoisseur",
+                            description: `You could attend ${Math.floor(annualPropertyTax / 150)} shows at the Royal Manitoba Theatre Centre, ${Math.floor(annualPropertyTax / 80)} concerts at the Burton Cummings Theatre, or visit the Canadian Museum for Human Rights ${Math.floor(annualPropertyTax / 18)} times. That's enough culture to become Winnipeg's unofficial arts ambassador.`
+                          },
+                          {
+                            emoji: "🥩",
+                            title: "Prairie Foodie Paradise",
+                            description: `That money could get you ${Math.floor(annualPropertyTax / 45)} fine dining experiences at 529 Wellington, ${Math.floor(annualPropertyTax / 12)} meals at The Keg, or ${Math.floor(annualPropertyTax / 6)} legendary Fat Boy burgers. You could eat like royalty at Winnipeg's best restaurants for ${annualPropertyTax > 5000 ? 'months' : 'weeks'}.`
+                          },
+                          {
+                            emoji: "🏡",
+                            title: "Home Improvement Mogul",
+                            description: `${formatCurrency(annualPropertyTax)} could fund a ${annualPropertyTax > 10000 ? 'major kitchen renovation' : annualPropertyTax > 5000 ? 'bathroom upgrade' : 'beautiful deck'}, or you could install a ${annualPropertyTax > 15000 ? 'luxury hot tub' : 'nice pool'} to beat those scorching Manitoba summers that can hit +35°C.`
+                          }
+                        ];
 
-              <p>
-                <strong>Professional Consultation Required:</strong> Before making any financial decisions, consult with qualified professionals
-                including mortgage brokers, financial advisors, real estate agents, lawyers, and tax professionals who can provide
-                personalized advice based on your specific situation.
-              </p>
+                        return (
+                          <div className="grid md:grid-cols-2 gap-6">
+                            {whatIfScenarios.map((scenario, index) => (
+                              <div key={index} className="bg-white dark:bg-gray-800 rounded-2xl p-6 border border-purple-100 dark:border-gray-700 shadow-sm hover:shadow-md transition-shadow duration-200">
+                                <div className="flex items-center gap-3 mb-3">
+                                  <span className="text-2xl">{scenario.emoji}</span>
+                                  <h4 className="text-lg font-bold text-gray-800 dark:text-gray-100">{scenario.title}</h4>
+                                </div>
+                                <p className="text-gray-600 dark:text-gray-300 leading-relaxed">{scenario.description}</p>
+                              </div>
+                            ))}
+                          </div>
+                        );
+                      })()}
 
-              <p>
-                <strong>Limitation of Liability:</strong> Prairie Home Calculator and its creators disclaim all liability for any financial
-                decisions made based on information provided by this tool. Users assume full responsibility for verifying all information
-                and seeking appropriate professional advice.
-              </p>
+                      <div className="mt-8 bg-white dark:bg-gray-800 rounded-2xl p-6 border border-pink-100 dark:border-gray-700 shadow-sm">
+                        <div className="text-center">
+                          <h4 className="text-lg font-bold text-gray-800 dark:text-gray-100 mb-3 flex items-center justify-center gap-2">
+                            <span>💭</span>
+                            The Reality Check
+                            <span>💭</span>
+                          </h4>
+                          <p className="text-gray-600 dark:text-gray-300 leading-relaxed max-w-3xl mx-auto">
+                            While it's fun to dream about tax-free living, property taxes in Winnipeg fund essential services like snow removal
+                            (crucial for those 5+ months of winter!), road maintenance, public transit, parks, libraries, and emergency services.
+                            Plus, at {((result.monthlyPropertyTax * 12 / (resultInputs?.propertyValue ?? result.propertyTax.assessedValue)) * 100).toFixed(2)}% annually,
+                            Winnipeg's property tax rate is actually quite reasonable compared to many other Canadian cities.
+                            Your {formatCurrency(result.monthlyPropertyTax * 12)} helps keep the city running smoothly year-round! 🏙️
+                          </p>
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+          </>
+        )}
 
-              <p className="text-center font-medium text-gray-700 dark:text-gray-300 pt-4 border-t border-gray-300 dark:border-gray-600">
-                Last updated: February 16, 2026 | For educational purposes only | © 2026 Prairie Home Calculator | All rights reserved.
-              </p>
-              <p className="text-center font-medium text-gray-700 dark:text-gray-300 pt-4 border-t border-gray-300 dark:border-gray-600">This calculator is not intended to be used for tax planning or financial advice.
-              </p>
-            </div>
-          </div>
+        {mode === "compare" && (
+          <ScenarioComparison baseScenario={validInputs} />
+        )}
 
+        {mode === "afford" && (
+          <AffordabilitySolver baseScenario={validInputs} onApply={handleApplyAffordablePrice} />
+        )}
+
+        {mode === "refinance" && (
+          <RefinanceCalculator />
+        )}
+
+        {/* Comprehensive Disclaimer */}
+        <div className="mt-16">
+          <Disclaimer />
         </div>
         <div className="mt-16 bg-gray-50 dark:bg-gray-800 rounded-3xl p-8 border border-gray-200 dark:border-gray-700">
           <div className="max-w-4xl mx-auto"><div className="max-w-4xl mx-auto"><a href="https://portal.wpeg.app"> &lt; &lt; Back to WPEG Portal</a></div></div>
         </div>
       </div>
 
+      {result && resultInputs && (
+        <PrintReport inputs={resultInputs} result={result} schedule={schedule} scenarioName={scenarioName} />
+      )}
     </div>
   );
 }
@@ -0,0 +1,66 @@
+import { formatCurrency } from "@/shared/formatters";
+import type { RentVsBuyYear } from "@/shared/types";
+
+const series = [
+    { key: "ownerNetWorth", label: "Buying", color: "#2563eb" },
+    { key: "renterNetWorth", label: "Renting", color: "#f59e0b" },
+] as const;
+
+export default function NetWorthChart({ data, breakEvenYear }: { data: RentVsBuyYear[]; breakEvenYear: number | null }) {
+    const width = 300;
+    const height = 180;
+    const padding = { top: 10, right: 10, bottom: 24, left: 10 };
+    const chartWidth = width - padding.left - padding.right;
+    const chartHeight = height - padding.top - padding.bottom;
+
+    const maxYear = Math.max(data[data.length - 1]?.year ?? 1, 1);
+    const values = data.flatMap(item => [item.ownerNetWorth, item.renterNetWorth]);
+    const maxValue = Math.max(...values, 1);
+    const minValue = Math.min(...values, 0);
+
+    const toX = (year: number) => padding.left + (year / maxYear) * chartWidth;
+    const toY = (value: number) => padding.top + chartHeight - ((value - minValue) / (maxValue - minValue)) * chartHeight;
+    const tickYears = data.filter(item => item.year === 1 || item.year % 5 === 0 || item.year === maxYear);
+
+    return (
+        <div className="w-full mx-auto">
+            <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-64">
+                <line x1={toX(0)} y1={toY(0)} x2={toX(maxYear)} y2={toY(0)} className="stroke-gray-300 dark:stroke-gray-600" strokeWidth="1" />
+                {breakEvenYear !== null && (
+                    <line x1={toX(breakEvenYear)} y1={padding.top} x2={toX(breakEvenYear)} y2={padding.top + chartHeight} stroke="#16a34a" strokeWidth="1" strokeDasharray="3 3">
+                        <title>Break-even in year {breakEvenYear}</title>
+                    </line>
+                )}
+                {series.map(({ key, color }) => (
+                    <g key={key}>
+                        <path
+                            d={data.map((item, i) => `${i === 0 ? "M" : "L"}${toX(item.year)},${toY(item[key])}`).join(" ")}
+                            fill="none"
+                            stroke={color}
+                            strokeWidth="2"
+                            strokeLinejoin="round"
+                        />
+                        {data.map(item => (
+                            <circle key={item.year} cx={toX(item.year)} cy={toY(item[key])} r="3" fill={color} className="opacity-0 hover:opacity-100 cursor-pointer">
+                                <title>Year {item.year}: {formatCurrency(item[key])}</title>
+                            </circle>
+                        ))}
+                    </g>
+                ))}
+                {tickYears.map(item => (
+                    <text key={item.year} x={toX(item.year)} y={height - 6} textAnchor="middle" className="fill-gray-500 dark:fill-gray-400" fontSize="9">
+                        Yr {item.year}
+                    </text>
+                ))}
+            </svg>
+            <div className="flex justify-center gap-6 text-xs font-medium text-gray-500 dark:text-gray-400">
+                {series.map(({ key, label, color }) => (
+                    <span key={key} className="flex items-center gap-2">
+                        <span className="w-3 h-3 rounded-full" style={{ backgroundColor: color }} />
+                        {label} net worth
+                    </span>
+                ))}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,55 @@
+import { PiggyBank } from "lucide-react";
+import { formatCurrency } from "@/shared/formatters";
+import type { MortgageResult } from "@/shared/types";
+
+export default function PrepaymentComparison({ result }: { result: MortgageResult }) {
+    const summary = result.prepaymentSummary;
+
+    const rows = [
+        { label: "Total Interest", before: formatCurrency(summary.interestWithoutPrepayments), after: formatCurrency(result.totalInterest) },
+        { label: "Mortgage-Free Date", before: summary.payoffDateWithoutPrepayments, after: result.payoffDate },
+        { label: "Amortization", before: `${summary.yearsWithoutPrepayments} yrs`, after: `${summary.yearsWithPrepayments} yrs` },
+    ];
+
+    return (
+        <div className="bg-white dark:bg-gray-800 rounded-3xl shadow-xl border border-gray-100 dark:border-gray-700 p-8">
+            <div className="flex items-center gap-3 mb-6">
+                <PiggyBank className="w-6 h-6 text-green-600" />
+                <h3 className="text-xl font-bold text-gray-800 dark:text-gray-100">Prepayment Impact</h3>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4 mb-6">
+                <div className="p-4 bg-green-50 dark:bg-green-900/20 rounded-xl">
+                    <p className="text-sm text-green-700 dark:text-green-400 mb-1">Interest Saved</p>
+                    <p className="text-xl font-bold text-green-700 dark:text-green-300">{formatCurrency(summary.interestSaved)}</p>
+                </div>
+                <div className="p-4 bg-green-50 dark:bg-green-900/20 rounded-xl">
+                    <p className="text-sm text-green-700 dark:text-green-400 mb-1">Time Saved</p>
+                    <p className="text-xl font-bold text-green-700 dark:text-green-300">{summary.yearsSaved} years</p>
+                </div>
+            </div>
+
+            <table className="w-full text-sm">
+                <thead>
+                    <tr className="text-left text-gray-600 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                        <th className="py-2 pr-4 font-semibold"></th>
+                        <th className="py-2 pr-4 font-semibold text-right">Before</th>
+                        <th className="py-2 font-semibold text-right">After</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {rows.map(row => (
+                        <tr key={row.label} className="border-b border-gray-100 dark:border-gray-700">
+                            <td className="py-2 pr-4 text-gray-600 dark:text-gray-400">{row.label}</td>
+                            <td className="py-2 pr-4 text-right text-gray-800 dark:text-gray-100">{row.before}</td>
+                            <td className="py-2 text-right font-semibold text-gray-800 dark:text-gray-100">{row.after}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-4">
+                {formatCurrency(summary.totalPrepaid)} prepaid in total. Lump sums are limited to {formatCurrency(summary.annualPrepaymentCap)} per year by your lender's prepayment privilege.
+            </p>
+        </div>
+    );
+}
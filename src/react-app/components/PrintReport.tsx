@@ -0,0 +1,205 @@
+import type { ReactNode } from "react";
+import { formatCurrency, formatDate } from "@/shared/formatters";
+import { paymentFrequencies } from "@/shared/paymentFrequency";
+import { mortgageInsurers } from "@/shared/cmhcInsurance";
+import type { AmortizationSchedule, MortgageCalculation, MortgageResult } from "@/shared/types";
+import { useMarketData } from "@/react-app/hooks/useMarketData";
+import DonutChart from "./DonutChart";
+import Disclaimer from "./Disclaimer";
+
+const propertyTypeLabels: Record<MortgageCalculation['propertyType'], string> = {
+    "single-family": "Single Family Home",
+    "condo": "Condominium",
+    "townhouse": "Townhouse",
+    "multi-family": "Multi-Family",
+};
+
+const heatingTypeLabels: Record<MortgageCalculation['heatingType'], string> = {
+    "gas": "Natural Gas",
+    "electric": "Electric",
+    "oil": "Oil",
+    "geothermal": "Geothermal",
+};
+
+function ReportSection({ title, children }: { title: string; children: ReactNode }) {
+    return (
+        <section className="break-inside-avoid mb-6">
+            <h2 className="text-base font-bold text-gray-900 border-b-2 border-blue-600 pb-1 mb-3">{title}</h2>
+            {children}
+        </section>
+    );
+}
+
+function ReportRows({ rows }: { rows: { label: string; value: string }[] }) {
+    return (
+        <dl className="grid grid-cols-2 gap-x-8 text-sm">
+            {rows.map(row => (
+                <div key={row.label} className="flex justify-between gap-4 py-1 border-b border-gray-100">
+                    <dt className="text-gray-600">{row.label}</dt>
+                    <dd className="font-semibold text-gray-900 text-right">{row.value}</dd>
+                </div>
+            ))}
+        </dl>
+    );
+}
+
+// Client-ready summary of a calculation; hidden on screen and printed in place of the interactive calculator
+export default function PrintReport({ inputs, result, schedule, scenarioName }: {
+    inputs: MortgageCalculation;
+    result: MortgageResult;
+    schedule: AmortizationSchedule | null;
+    scenarioName?: string;
+}) {
+    const { marketData } = useMarketData();
+    const municipalityName = marketData.municipalities[result.municipality].name;
+    const preparedOn = new Date().toLocaleDateString('en-CA', { year: 'numeric', month: 'long', day: 'numeric' });
+
+    const monthlyDebts = inputs.monthlyCarLoanPayments + inputs.monthlyCreditCardPayments
+        + inputs.monthlySupportPayments + inputs.monthlyOtherDebtPayments;
+
+    const inputRows = [
+        { label: "Purchase Price", value: formatCurrency(inputs.propertyValue) },
+        { label: "Down Payment", value: `${formatCurrency(inputs.downPayment)} (${result.downPaymentPercent}%)` },
+        { label: "Interest Rate", value: `${inputs.interestRate}% (${inputs.compounding === "semi-annual" ? "fixed" : "variable"})` },
+        ...(inputs.compounding === "monthly"
+            ? [{ label: "Variable Payment", value: inputs.variablePaymentType === "fixed" ? "Fixed" : "Adjustable" }]
+            : []),
+        ...(inputs.primeRatePath.length > 0
+            ? [{ label: "Prime Rate Path", value: inputs.primeRatePath.map(move => `${move.date} ${move.change > 0 ? "+" : ""}${move.change}`).join(", ") }]
+            : []),
+        { label: "Amortization", value: `${inputs.amortizationYears} years` },
+        { label: "Term", value: `${inputs.termYears} ${inputs.termYears === 1 ? "year" : "years"}` },
+        { label: "Payment Frequency", value: paymentFrequencies[inputs.paymentFrequency].label },
+        { label: "Municipality", value: municipalityName },
+        { label: "Property Type", value: propertyTypeLabels[inputs.propertyType] },
+        { label: "Heating", value: heatingTypeLabels[inputs.heatingType] },
+        { label: "First-Time Buyer", value: inputs.isFirstTimeBuyer ? "Yes" : "No" },
+        { label: "Gross Annual Income", value: formatCurrency(inputs.grossAnnualIncome) },
+        { label: "Other Monthly Debts", value: formatCurrency(monthlyDebts) },
+        ...(inputs.monthlyCondoFees > 0 ? [{ label: "Condo Fees", value: `${formatCurrency(inputs.monthlyCondoFees)}/month` }] : []),
+        ...(inputs.monthlyRentalIncome > 0 ? [{ label: "Rental Income", value: `${formatCurrency(inputs.monthlyRentalIncome)}/month` }] : []),
+        ...(inputs.annualLumpSumPrepayment > 0 ? [{ label: "Annual Lump Sum", value: formatCurrency(inputs.annualLumpSumPrepayment) }] : []),
+        ...(inputs.paymentIncreasePercent > 0 ? [{ label: "Payment Increase", value: `${inputs.paymentIncreasePercent}%` }] : []),
+    ];
+
+    const resultRows = [
+        { label: "Monthly Mortgage Payment", value: formatCurrency(result.monthlyPayment) },
+        ...(result.paymentFrequency !== "monthly"
+            ? [{ label: `${paymentFrequencies[result.paymentFrequency].label} Payment`, value: formatCurrency(result.regularPayment) }]
+            : []),
+        { label: "Total Monthly Housing Cost", value: formatCurrency(result.totalMonthlyCost) },
+        { label: "Principal Amount", value: formatCurrency(result.principalAmount) },
+        ...(result.mortgageInsurance.required
+            ? [
+                { label: `${mortgageInsurers[result.mortgageInsurance.insurer].label} Premium (${result.mortgageInsurance.premiumRate}%)`, value: formatCurrency(result.mortgageInsurance.premium) },
+                { label: "PST on Premium", value: formatCurrency(result.mortgageInsurance.provincialSalesTax) },
+            ]
+            : []),
+        { label: "Total Interest", value: formatCurrency(result.totalInterest) },
+        { label: "Effective Annual Rate", value: `${result.effectiveAnnualRate}%` },
+        { label: "Mortgage-Free Date", value: formatDate(result.payoffDate) },
+        { label: "Annual Property Tax", value: formatCurrency(result.propertyTax.annualTax) },
+        { label: "GDS Ratio", value: `${result.debtServiceRatios.gds.toFixed(1)}% / ${result.debtServiceRatios.gdsLimit}% max` },
+        { label: "TDS Ratio", value: `${result.debtServiceRatios.tds.toFixed(1)}% / ${result.debtServiceRatios.tdsLimit}% max` },
+        { label: `Stress Test (${result.stressTest.qualifyingRate}%)`, value: result.stressTest.passes ? "Passes" : "Does not pass" },
+        { label: "Affordability", value: result.affordabilityRating.charAt(0).toUpperCase() + result.affordabilityRating.slice(1) },
+        { label: "Closing Costs", value: formatCurrency(result.closingCosts.totalClosingCosts) },
+        { label: "Cash Needed at Closing", value: formatCurrency(result.closingCosts.cashNeededAtClosing) },
+    ];
+
+    const breakdown = [
+        { label: 'Mortgage', value: result.monthlyPayment, color: '#2563eb' }, // blue-600
+        { label: 'Property Tax', value: result.monthlyPropertyTax, color: '#4f46e5' }, // indigo-600
+        { label: 'Insurance', value: result.monthlyInsurance, color: '#9333ea' }, // purple-600
+        { label: 'Utilities', value: result.monthlyUtilities, color: '#db2777' }, // pink-600
+        ...(result.monthlyCondoFees > 0
+            ? [{ label: 'Condo Fees', value: result.monthlyCondoFees, color: '#0d9488' }] // teal-600
+            : []),
+    ];
+
+    return (
+        <div className="hidden print:block bg-white text-gray-900">
+            {/* Branded Header */}
+            <header className="flex items-center gap-4 border-b-4 border-blue-600 pb-4 mb-6">
+                <img src="/mortgage-wpeg-logo.png" alt="WPEG Mortgage Calculator Logo" className="w-16 h-16 object-contain" />
+                <div className="flex-1">
+                    <h1 className="text-2xl font-black tracking-tight">Prairie Home Calculator</h1>
+                    <p className="text-sm font-medium text-blue-600 uppercase tracking-wide">Mortgage Report: {municipalityName}</p>
+                </div>
+                <div className="text-right text-xs text-gray-600">
+                    {scenarioName && <p className="font-semibold text-gray-900">{scenarioName}</p>}
+                    <p>Prepared {preparedOn}</p>
+                    <p>Market data as of {formatDate(marketData.effectiveDate)}</p>
+                </div>
+            </header>
+
+            <ReportSection title="Your Inputs">
+                <ReportRows rows={inputRows} />
+            </ReportSection>
+
+            <ReportSection title="Results">
+                <ReportRows rows={resultRows} />
+            </ReportSection>
+
+            <ReportSection title="Monthly Cost Breakdown">
+                <div className="grid grid-cols-2 gap-8 items-center">
+                    <DonutChart data={breakdown} />
+                    <ul className="space-y-2 text-sm">
+                        {breakdown.map(item => (
+                            <li key={item.label} className="flex items-center justify-between gap-4">
+                                <span className="flex items-center gap-2">
+                                    <span className="w-3 h-3 rounded-full" style={{ backgroundColor: item.color }}></span>
+                                    {item.label}
+                                </span>
+                                <span className="font-semibold">{formatCurrency(item.value)}</span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            </ReportSection>
+
+            {result.warnings.length > 0 && (
+                <ReportSection title="Warnings">
+                    <ul className="space-y-1 text-sm">
+                        {result.warnings.map((warning, index) => (
+                            <li key={index}>• {warning}</li>
+                        ))}
+                    </ul>
+                </ReportSection>
+            )}
+
+            {schedule && (
+                <ReportSection title="Amortization Summary">
+                    <table className="w-full text-xs">
+                        <thead>
+                            <tr className="text-left text-gray-600 border-b border-gray-300">
+                                <th className="py-1 pr-4 font-semibold">Year</th>
+                                <th className="py-1 pr-4 font-semibold text-right">Paid</th>
+                                <th className="py-1 pr-4 font-semibold text-right">Interest</th>
+                                <th className="py-1 pr-4 font-semibold text-right">Principal</th>
+                                <th className="py-1 pr-4 font-semibold text-right">Prepayment</th>
+                                <th className="py-1 font-semibold text-right">Ending Balance</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {schedule.yearlySummaries.map(summary => (
+                                <tr key={summary.year} className="border-b border-gray-100 break-inside-avoid">
+                                    <td className="py-1 pr-4">{summary.year}</td>
+                                    <td className="py-1 pr-4 text-right">{formatCurrency(summary.totalPaid)}</td>
+                                    <td className="py-1 pr-4 text-right">{formatCurrency(summary.totalInterest)}</td>
+                                    <td className="py-1 pr-4 text-right">{formatCurrency(summary.totalPrincipal)}</td>
+                                    <td className="py-1 pr-4 text-right">{formatCurrency(summary.totalPrepayment)}</td>
+                                    <td className="py-1 text-right">{formatCurrency(summary.endingBalance)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </ReportSection>
+            )}
+
+            <div className="break-inside-avoid">
+                <Disclaimer />
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,249 @@
+import { useState } from "react";
+import { Plus, Repeat, X } from "lucide-react";
+import { formatCurrency } from "@/shared/formatters";
+import { calculateRefinance } from "@/shared/breakPenalty";
+import { paymentFrequencies } from "@/shared/paymentFrequency";
+import { formatValidationIssues } from "@/shared/validation";
+import type { ValidationIssue } from "@/shared/validation";
+import { RefinanceCalculationSchema } from "@/shared/types";
+import type { RefinanceCalculation, RefinanceResult } from "@/shared/types";
+import { useMarketData } from "@/react-app/hooks/useMarketData";
+
+// Typical big-bank posted rates; lenders publish their own and they change often
+const defaultPostedRates: RefinanceCalculation['postedRates'] = [
+    { termYears: 1, rate: 6.49 },
+    { termYears: 2, rate: 6.29 },
+    { termYears: 3, rate: 6.05 },
+    { termYears: 4, rate: 5.99 },
+    { termYears: 5, rate: 6.09 },
+];
+
+export default function RefinanceCalculator() {
+    const { marketData } = useMarketData();
+    const [data, setData] = useState<RefinanceCalculation>(() => ({
+        currentBalance: 300000,
+        contractRate: 5.29,
+        compounding: "semi-annual",
+        remainingTermMonths: 30,
+        remainingAmortizationYears: 20,
+        paymentFrequency: "monthly",
+        postedRateAtSigning: 7.04,
+        postedRates: defaultPostedRates,
+        newRate: marketData.currentInterestRates.fixed5Year,
+        newCompounding: "semi-annual",
+        switchingCosts: 1500,
+    }));
+    const [result, setResult] = useState<RefinanceResult | null>(null);
+    const [issues, setIssues] = useState<ValidationIssue[]>([]);
+
+    const updateField = (field: keyof RefinanceCalculation, value: RefinanceCalculation[keyof RefinanceCalculation]) => {
+        setData(prev => ({ ...prev, [field]: value }));
+    };
+
+    const handleCalculate = () => {
+        const parsed = RefinanceCalculationSchema.safeParse(data);
+        if (!parsed.success) {
+            setIssues(formatValidationIssues(parsed.error));
+            setResult(null);
+            return;
+        }
+        setIssues([]);
+        setResult(calculateRefinance(parsed.data));
+    };
+
+    const inputClassName = "w-full px-4 py-3 border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 shadow-sm";
+    const labelClassName = "block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2";
+
+    const numberFields: { field: keyof RefinanceCalculation; label: string; step?: string }[] = [
+        { field: "currentBalance", label: "Current Balance" },
+        { field: "contractRate", label: "Contract Rate (%)", step: "0.01" },
+        { field: "remainingTermMonths", label: "Months Left in Term" },
+        { field: "remainingAmortizationYears", label: "Remaining Amortization (Years)" },
+        { field: "postedRateAtSigning", label: "Posted Rate When Signed (%)", step: "0.01" },
+        { field: "newRate", label: "New Rate (%)", step: "0.01" },
+        { field: "switchingCosts", label: "Discharge, Legal & Appraisal Fees" },
+    ];
+
+    return (
+        <div className="grid lg:grid-cols-2 gap-8">
+            <div className="bg-white dark:bg-gray-800 rounded-3xl shadow-xl border border-gray-100 dark:border-gray-700 p-8">
+                <div className="flex items-center gap-3 mb-2">
+                    <Repeat className="w-6 h-6 text-blue-600" />
+                    <h2 className="text-2xl font-bold text-gray-800 dark:text-gray-100">Break or Refinance?</h2>
+                </div>
+                <p className="text-sm text-gray-500 dark:text-gray-400 mb-6">
+                    Estimates the penalty for breaking your mortgage early and how long a lower rate takes to pay it back.
+                </p>
+
+                <div className="grid sm:grid-cols-2 gap-4">
+                    {numberFields.map(({ field, label, step }) => (
+                        <div key={field}>
+                            <label className={labelClassName}>{label}</label>
+                            <input
+                                type="number"
+                                step={step}
+                                value={data[field] as number}
+                                onChange={(e) => updateField(field, parseFloat(e.target.value) || 0)}
+                                className={inputClassName}
+                            />
+                        </div>
+                    ))}
+                    <div>
+                        <label className={labelClassName}>Current Rate Type</label>
+                        <select
+                            value={data.compounding}
+                            onChange={(e) => updateField('compounding', e.target.value as RefinanceCalculation['compounding'])}
+                            className={`${inputClassName} appearance-none bg-white`}
+                        >
+                            <option value="semi-annual">Fixed</option>
+                            <option value="monthly">Variable</option>
+                        </select>
+                    </div>
+                    <div>
+                        <label className={labelClassName}>New Rate Type</label>
+                        <select
+                            value={data.newCompounding}
+                            onChange={(e) => updateField('newCompounding', e.target.value as RefinanceCalculation['newCompounding'])}
+                            className={`${inputClassName} appearance-none bg-white`}
+                        >
+                            <option value="semi-annual">Fixed</option>
+                            <option value="monthly">Variable</option>
+                        </select>
+                    </div>
+                    <div>
+                        <label className={labelClassName}>Payment Frequency</label>
+                        <select
+                            value={data.paymentFrequency}
+                            onChange={(e) => updateField('paymentFrequency', e.target.value as RefinanceCalculation['paymentFrequency'])}
+                            className={`${inputClassName} appearance-none bg-white`}
+                        >
+                            {Object.entries(paymentFrequencies).map(([frequency, { label }]) => (
+                                <option key={frequency} value={frequency}>{label}</option>
+                            ))}
+                        </select>
+                    </div>
+                </div>
+
+                {data.compounding === "semi-annual" && (
+                    <div className="mt-4 space-y-2">
+                        <p className={labelClassName}>Lender's Current Posted Rates</p>
+                        {data.postedRates.map((posted, index) => (
+                            <div key={index} className="flex items-center gap-2">
+                                <select
+                                    value={posted.termYears}
+                                    onChange={(e) => updateField('postedRates', data.postedRates.map((item, i) => i === index ? { ...item, termYears: parseInt(e.target.value) } : item))}
+                                    className="flex-1 px-3 py-2 border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent appearance-none bg-white shadow-sm"
+                                >
+                                    {[1, 2, 3, 4, 5, 7, 10].map(years => (
+                                        <option key={years} value={years}>{years}-year</option>
+                                    ))}
+                                </select>
+                                <input
+                                    type="number"
+                                    step="0.01"
+                                    value={posted.rate}
+                                    onChange={(e) => updateField('postedRates', data.postedRates.map((item, i) => i === index ? { ...item, rate: parseFloat(e.target.value) || 0 } : item))}
+                                    className="flex-1 px-3 py-2 border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent shadow-sm"
+                                />
+                                <button
+                                    type="button"
+                                    onClick={() => updateField('postedRates', data.postedRates.filter((_, i) => i !== index))}
+                                    className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                                    aria-label="Remove posted rate"
+                                >
+                                    <X className="w-4 h-4" />
+                                </button>
+                            </div>
+                        ))}
+                        <button
+                            type="button"
+                            onClick={() => updateField('postedRates', [...data.postedRates, { termYears: 5, rate: data.postedRateAtSigning }])}
+                            className="inline-flex items-center gap-1 text-xs font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                        >
+                            <Plus className="w-3 h-3" />
+                            Add posted rate
+                        </button>
+                    </div>
+                )}
+
+                <button
+                    onClick={handleCalculate}
+                    className="w-full mt-6 bg-gradient-to-r from-blue-600 to-indigo-600 dark:from-blue-500 dark:to-indigo-500 text-white py-4 px-6 rounded-xl font-semibold text-lg hover:from-blue-700 hover:to-indigo-700 transition-all duration-200 shadow-lg hover:shadow-xl"
+                >
+                    Calculate Penalty
+                </button>
+
+                {issues.length > 0 && (
+                    <ul className="mt-4 p-4 space-y-1 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl text-sm text-red-600 dark:text-red-400">
+                        {issues.map((issue, index) => (
+                            <li key={index}>{issue.message}</li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+
+            <div className="bg-white dark:bg-gray-800 rounded-3xl shadow-xl border border-gray-100 dark:border-gray-700 p-8">
+                {!result && (
+                    <p className="text-gray-500 dark:text-gray-400">
+                        Enter your mortgage and your lender's posted rates to see the cost of breaking early and the break-even on a new rate.
+                    </p>
+                )}
+
+                {result && (
+                    <div className="space-y-6">
+                        <div>
+                            <p className="text-sm font-semibold text-gray-500 dark:text-gray-400">Estimated Penalty</p>
+                            <p className="text-4xl font-bold text-blue-600 dark:text-blue-400">{formatCurrency(result.penalty)}</p>
+                            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                                {result.penaltyMethod === "ird" ? "Interest rate differential (higher than 3 months' interest)" : "3 months' interest"}
+                            </p>
+                        </div>
+
+                        <div className="space-y-3">
+                            {[
+                                { label: "3 Months' Interest", value: formatCurrency(result.threeMonthsInterestPenalty) },
+                                ...(result.irdPenalty !== null && result.comparisonRate !== null
+                                    ? [
+                                        { label: "Discount Off Posted at Signing", value: `${result.postedRateDiscount.toFixed(2)}%` },
+                                        { label: `Comparison Rate (${result.comparisonTermYears}-year posted less discount)`, value: `${result.comparisonRate.toFixed(2)}%` },
+                                        { label: "Interest Rate Differential", value: formatCurrency(result.irdPenalty) },
+                                    ]
+                                    : []),
+                                { label: "Penalty Plus Fees", value: formatCurrency(result.totalCost) },
+                                { label: `Current ${paymentFrequencies[data.paymentFrequency].label} Payment`, value: formatCurrency(result.currentPayment) },
+                                { label: `New ${paymentFrequencies[data.paymentFrequency].label} Payment`, value: formatCurrency(result.newPayment) },
+                                { label: "Interest Saved Over Remaining Term", value: formatCurrency(result.interestSavedOverTerm) },
+                                { label: "Net Savings Over Remaining Term", value: formatCurrency(result.netSavingsOverTerm) },
+                            ].map(item => (
+                                <div key={item.label} className="flex justify-between gap-4">
+                                    <span className="text-gray-600 dark:text-gray-400">{item.label}</span>
+                                    <span className="font-semibold dark:text-gray-100">{item.value}</span>
+                                </div>
+                            ))}
+                        </div>
+
+                        <div className={`p-4 rounded-xl border ${result.breakEvenMonths !== null && result.breakEvenMonths <= data.remainingTermMonths
+                            ? 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800 text-green-700 dark:text-green-400'
+                            : 'bg-yellow-50 dark:bg-yellow-900/20 border-yellow-200 dark:border-yellow-800 text-yellow-700 dark:text-yellow-400'
+                            }`}>
+                            <p className="text-sm font-semibold">
+                                {result.breakEvenMonths === null
+                                    ? "The new rate never recovers the cost of breaking."
+                                    : `Break-even after ${result.breakEvenMonths} months of interest savings.`}
+                            </p>
+                            <p className="text-sm mt-1">
+                                {result.breakEvenMonths !== null && result.breakEvenMonths <= data.remainingTermMonths
+                                    ? "That's before your current term ends, so switching comes out ahead."
+                                    : "Waiting for renewal may cost less than breaking now."}
+                            </p>
+                        </div>
+                    </div>
+                )}
+
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-6">
+                    Moving? Porting the mortgage to your new home usually avoids the penalty on the ported balance. Lenders calculate IRD differently; ask yours for an exact payout figure.
+                </p>
+            </div>
+        </div>
+    );
+}
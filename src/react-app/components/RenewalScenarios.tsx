@@ -0,0 +1,59 @@
+import { RefreshCw } from "lucide-react";
+import { formatCurrency } from "@/shared/formatters";
+import type { RenewalAnalysis } from "@/shared/types";
+
+export default function RenewalScenarios({ renewal }: { renewal: RenewalAnalysis }) {
+    return (
+        <div className="bg-white dark:bg-gray-800 rounded-3xl shadow-xl border border-gray-100 dark:border-gray-700 p-8">
+            <div className="flex items-center gap-3 mb-6">
+                <RefreshCw className="w-6 h-6 text-blue-600" />
+                <h3 className="text-xl font-bold text-gray-800 dark:text-gray-100">Renewal Scenarios</h3>
+            </div>
+
+            <div className="space-y-4 mb-6">
+                <div className="flex justify-between">
+                    <span className="text-gray-600 dark:text-gray-400">Balance at End of {renewal.termYears}-Year Term</span>
+                    <span className="font-semibold dark:text-gray-100">{formatCurrency(renewal.balanceAtRenewal)}</span>
+                </div>
+                <div className="flex justify-between">
+                    <span className="text-gray-600 dark:text-gray-400">Renewal Date</span>
+                    <span className="font-semibold dark:text-gray-100">{renewal.renewalDate}</span>
+                </div>
+                <div className="flex justify-between">
+                    <span className="text-gray-600 dark:text-gray-400">Remaining Amortization</span>
+                    <span className="font-semibold dark:text-gray-100">{renewal.remainingAmortizationYears} years</span>
+                </div>
+            </div>
+
+            {renewal.scenarios.length > 0 && (
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-left text-gray-600 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                                <th className="py-2 pr-4 font-semibold">Scenario</th>
+                                <th className="py-2 pr-4 font-semibold text-right">Rate</th>
+                                <th className="py-2 pr-4 font-semibold text-right">Payment</th>
+                                <th className="py-2 font-semibold text-right">Change</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {renewal.scenarios.map((scenario, index) => (
+                                <tr key={index} className="border-b border-gray-100 dark:border-gray-700 text-gray-800 dark:text-gray-100">
+                                    <td className="py-2 pr-4">{scenario.label}</td>
+                                    <td className="py-2 pr-4 text-right">{scenario.rate.toFixed(2)}%</td>
+                                    <td className="py-2 pr-4 text-right">{formatCurrency(scenario.payment)}</td>
+                                    <td className={`py-2 text-right font-semibold ${scenario.paymentChange > 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+                                        {scenario.paymentChange > 0 ? "+" : ""}{formatCurrency(scenario.paymentChange)}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-4">
+                Canadian mortgages renew at the rates available at the end of each term. Shocked scenarios show the risk of rates moving before renewal.
+            </p>
+        </div>
+    );
+}
@@ -0,0 +1,122 @@
+import { useCallback, useEffect, useState } from "react";
+import { Bookmark, Copy, Check, Trash2 } from "lucide-react";
+import { Link } from "react-router";
+import type { MortgageCalculation, ScenarioSummary } from "@/shared/types";
+import { createScenario, deleteScenario, getScenarioShareUrl, listScenarios } from "@/react-app/api/scenarios";
+
+export default function SavedScenarios({ formData }: { formData: MortgageCalculation }) {
+    const [name, setName] = useState("");
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [shareUrl, setShareUrl] = useState<string | null>(null);
+    const [copied, setCopied] = useState(false);
+    const [scenarios, setScenarios] = useState<ScenarioSummary[]>([]);
+
+    const refreshScenarios = useCallback(() => {
+        listScenarios().then(setScenarios).catch(() => setScenarios([]));
+    }, []);
+
+    useEffect(() => {
+        refreshScenarios();
+    }, [refreshScenarios]);
+
+    const handleSave = async () => {
+        setSaving(true);
+        setError(null);
+        setCopied(false);
+
+        try {
+            const scenario = await createScenario(name, formData);
+            setShareUrl(getScenarioShareUrl(scenario.id));
+            setName("");
+            refreshScenarios();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to save scenario.");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleCopy = async () => {
+        if (!shareUrl) return;
+        await navigator.clipboard.writeText(shareUrl);
+        setCopied(true);
+    };
+
+    const handleDelete = async (id: string) => {
+        try {
+            await deleteScenario(id);
+            refreshScenarios();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to delete scenario.");
+        }
+    };
+
+    return (
+        <div className="bg-white dark:bg-gray-800 rounded-3xl shadow-xl border border-gray-100 dark:border-gray-700 p-8">
+            <div className="flex items-center gap-3 mb-6">
+                <Bookmark className="w-6 h-6 text-blue-600" />
+                <h3 className="text-xl font-bold text-gray-800 dark:text-gray-100">Save & Share</h3>
+            </div>
+
+            <div className="flex gap-3">
+                <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    className="flex-1 px-4 py-3 border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent shadow-sm"
+                    placeholder="e.g. Smith family, 5-year fixed"
+                />
+                <button
+                    onClick={handleSave}
+                    disabled={saving || name.trim() === ""}
+                    className="px-6 py-3 bg-blue-600 text-white rounded-xl font-semibold hover:bg-blue-700 transition-all duration-200 shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {saving ? "Saving..." : "Save"}
+                </button>
+            </div>
+
+            {error && (
+                <p className="text-sm text-red-600 dark:text-red-400 mt-3">{error}</p>
+            )}
+
+            {shareUrl && (
+                <div className="flex items-center gap-2 mt-4 p-3 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-xl">
+                    <span className="flex-1 text-sm text-blue-700 dark:text-blue-300 truncate">{shareUrl}</span>
+                    <button
+                        onClick={handleCopy}
+                        className="p-2 text-blue-600 dark:text-blue-400 hover:text-blue-800 transition-colors"
+                        aria-label="Copy share link"
+                    >
+                        {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                    </button>
+                </div>
+            )}
+
+            {scenarios.length > 0 && (
+                <div className="mt-6">
+                    <p className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">Saved in This Browser</p>
+                    <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+                        {scenarios.map(scenario => (
+                            <li key={scenario.id} className="flex items-center justify-between py-2">
+                                <Link to={`/s/${scenario.id}`} className="text-sm text-blue-600 dark:text-blue-400 hover:underline truncate">
+                                    {scenario.name}
+                                </Link>
+                                <span className="flex items-center gap-2">
+                                    <span className="text-xs text-gray-500 dark:text-gray-400">{scenario.createdAt.slice(0, 10)}</span>
+                                    <button
+                                        onClick={() => handleDelete(scenario.id)}
+                                        className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                                        aria-label={`Delete ${scenario.name}`}
+                                    >
+                                        <Trash2 className="w-4 h-4" />
+                                    </button>
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+}
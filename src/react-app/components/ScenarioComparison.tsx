@@ -0,0 +1,264 @@
+import { useMemo, useRef, useState } from "react";
+import type { ReactNode } from "react";
+import { Copy, Trophy, X } from "lucide-react";
+import { formatCurrency } from "@/shared/formatters";
+import { compareScenarios } from "@/shared/scenarioComparison";
+import type { ComparisonValue } from "@/shared/scenarioComparison";
+import { paymentFrequencies } from "@/shared/paymentFrequency";
+import { validateMortgageCalculation } from "@/shared/mortgageCalculator";
+import { parseFormValues } from "@/shared/formValues";
+import type { FormValues } from "@/shared/formValues";
+import { MortgageCalculationSchema } from "@/shared/types";
+import type { MortgageCalculation } from "@/shared/types";
+import { useMarketData } from "@/react-app/hooks/useMarketData";
+
+type ComparedScenario = {
+    id: number;
+    name: string;
+    data: FormValues<MortgageCalculation>; // Number inputs hold their text as typed
+};
+
+const MAX_SCENARIOS = 4;
+const MIN_SCENARIOS = 2;
+
+// "closingCosts.landTransferTax" -> "Closing Costs › Land Transfer Tax"
+function formatFieldLabel(field: string): string {
+    return field
+        .split(".")
+        .map(part => part.replace(/([A-Z])/g, " $1").replace(/^./, char => char.toUpperCase()))
+        .join(" › ");
+}
+
+function formatComparisonValue(field: string, value: ComparisonValue): string {
+    if (value === null) return "—";
+    if (typeof value === "boolean") return value ? "Yes" : "No";
+    if (typeof value === "string") return value;
+    if (/rate|percent|gds|tds|limit/i.test(field)) return `${value}%`;
+    if (/years/i.test(field)) return `${value}`;
+    return formatCurrency(value);
+}
+
+export default function ScenarioComparison({ baseScenario }: { baseScenario: MortgageCalculation }) {
+    const nextId = useRef(3);
+    const [scenarios, setScenarios] = useState<ComparedScenario[]>([
+        { id: 1, name: "Scenario A", data: baseScenario },
+        { id: 2, name: "Scenario B", data: { ...baseScenario, compounding: "monthly" } },
+    ]);
+    const [showAllFields, setShowAllFields] = useState(false);
+    const { marketData } = useMarketData();
+
+    // Results are only compared once every scenario passes the schema and the mortgage insurance rules
+    const validations = useMemo(
+        () => scenarios.map(scenario => validateMortgageCalculation(parseFormValues(MortgageCalculationSchema, scenario.data))),
+        [scenarios]
+    );
+    const comparison = useMemo(() => {
+        const inputs: MortgageCalculation[] = [];
+        for (const validation of validations) {
+            if (!validation.success) return null;
+            inputs.push(validation.data);
+        }
+        return compareScenarios(inputs, marketData);
+    }, [validations, marketData]);
+    const cheapestIndex = comparison?.cheapestIndex ?? -1;
+    const visibleRows = !comparison ? [] : showAllFields ? comparison.rows : comparison.rows.filter(row => row.differs);
+
+    const updateScenario = (id: number, field: keyof MortgageCalculation, value: string | number) => {
+        setScenarios(prev => prev.map(scenario => scenario.id === id ? { ...scenario, data: { ...scenario.data, [field]: value } } : scenario));
+    };
+
+    // The school division is specific to a municipality, so switching resets it to the default
+    const updateScenarioMunicipality = (id: number, municipality: MortgageCalculation['municipality']) => {
+        setScenarios(prev => prev.map(scenario => scenario.id === id ? { ...scenario, data: { ...scenario.data, municipality, schoolDivision: undefined } } : scenario));
+    };
+
+    const cloneScenario = (source: ComparedScenario) => {
+        if (scenarios.length >= MAX_SCENARIOS) return;
+        const id = nextId.current++;
+        setScenarios(prev => [...prev, { id, name: `${source.name} (copy)`, data: { ...source.data } }]);
+    };
+
+    const removeScenario = (id: number) => {
+        if (scenarios.length <= MIN_SCENARIOS) return;
+        setScenarios(prev => prev.filter(scenario => scenario.id !== id));
+    };
+
+    const inputClassName = "w-full px-2 py-1.5 border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm";
+
+    const inputRows: { label: string; render: (scenario: ComparedScenario) => ReactNode }[] = [
+        {
+            label: "Municipality",
+            render: scenario => (
+                <select value={scenario.data.municipality} onChange={(e) => updateScenarioMunicipality(scenario.id, e.target.value as MortgageCalculation['municipality'])} className={inputClassName}>
+                    {Object.entries(marketData.municipalities).map(([value, profile]) => <option key={value} value={value}>{profile.name}</option>)}
+                </select>
+            ),
+        },
+        {
+            label: "Property Value",
+            render: scenario => <input type="number" value={scenario.data.propertyValue} onChange={(e) => updateScenario(scenario.id, 'propertyValue', e.target.value)} className={inputClassName} />,
+        },
+        {
+            label: "Down Payment",
+            render: scenario => <input type="number" value={scenario.data.downPayment} onChange={(e) => updateScenario(scenario.id, 'downPayment', e.target.value)} className={inputClassName} />,
+        },
+        {
+            label: "Interest Rate (%)",
+            render: scenario => <input type="number" step="0.01" value={scenario.data.interestRate} onChange={(e) => updateScenario(scenario.id, 'interestRate', e.target.value)} className={inputClassName} />,
+        },
+        {
+            label: "Rate Type",
+            render: scenario => (
+                <select value={scenario.data.compounding} onChange={(e) => updateScenario(scenario.id, 'compounding', e.target.value)} className={inputClassName}>
+                    <option value="semi-annual">Fixed</option>
+                    <option value="monthly">Variable</option>
+                </select>
+            ),
+        },
+        {
+            label: "Amortization (Years)",
+            render: scenario => (
+                <select value={scenario.data.amortizationYears} onChange={(e) => updateScenario(scenario.id, 'amortizationYears', parseInt(e.target.value))} className={inputClassName}>
+                    {[15, 20, 25, 30, 35].map(years => <option key={years} value={years}>{years}</option>)}
+                </select>
+            ),
+        },
+        {
+            label: "Term (Years)",
+            render: scenario => (
+                <select value={scenario.data.termYears} onChange={(e) => updateScenario(scenario.id, 'termYears', parseInt(e.target.value))} className={inputClassName}>
+                    {[1, 2, 3, 4, 5, 7, 10].map(years => <option key={years} value={years}>{years}</option>)}
+                </select>
+            ),
+        },
+        {
+            label: "Payment Frequency",
+            render: scenario => (
+                <select value={scenario.data.paymentFrequency} onChange={(e) => updateScenario(scenario.id, 'paymentFrequency', e.target.value)} className={inputClassName}>
+                    {Object.entries(paymentFrequencies).map(([frequency, { label }]) => <option key={frequency} value={frequency}>{label}</option>)}
+                </select>
+            ),
+        },
+    ];
+
+    return (
+        <div className="bg-white dark:bg-gray-800 rounded-3xl shadow-xl border border-gray-100 dark:border-gray-700 p-8">
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+                <div>
+                    <h2 className="text-2xl font-bold text-gray-800 dark:text-gray-100">Compare Scenarios</h2>
+                    <p className="text-sm text-gray-500 dark:text-gray-400">Clone a scenario and change one variable to see what it really costs.</p>
+                </div>
+                <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+                    <input
+                        type="checkbox"
+                        checked={showAllFields}
+                        onChange={(e) => setShowAllFields(e.target.checked)}
+                        className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                    />
+                    Show fields that don't differ
+                </label>
+            </div>
+
+            <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="border-b border-gray-200 dark:border-gray-700">
+                            <th className="py-2 pr-4 text-left font-semibold text-gray-600 dark:text-gray-400 min-w-[12rem]"></th>
+                            {scenarios.map((scenario, index) => (
+                                <th key={scenario.id} className={`py-2 px-2 text-left align-top min-w-[10rem] ${index === cheapestIndex ? 'bg-green-50 dark:bg-green-900/20' : ''}`}>
+                                    <div className="flex items-center gap-1">
+                                        <input
+                                            type="text"
+                                            value={scenario.name}
+                                            onChange={(e) => setScenarios(prev => prev.map(item => item.id === scenario.id ? { ...item, name: e.target.value } : item))}
+                                            className="flex-1 min-w-0 bg-transparent font-bold text-gray-800 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500 rounded px-1"
+                                        />
+                                        <button
+                                            type="button"
+                                            onClick={() => cloneScenario(scenario)}
+                                            disabled={scenarios.length >= MAX_SCENARIOS}
+                                            className="p-1 text-gray-400 hover:text-blue-600 disabled:opacity-30 disabled:cursor-not-allowed"
+                                            aria-label={`Clone ${scenario.name}`}
+                                        >
+                                            <Copy className="w-4 h-4" />
+                                        </button>
+                                        <button
+                                            type="button"
+                                            onClick={() => removeScenario(scenario.id)}
+                                            disabled={scenarios.length <= MIN_SCENARIOS}
+                                            className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-30 disabled:cursor-not-allowed"
+                                            aria-label={`Remove ${scenario.name}`}
+                                        >
+                                            <X className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                    {index === cheapestIndex && (
+                                        <span className="inline-flex items-center gap-1 mt-1 text-xs font-semibold text-green-700 dark:text-green-400">
+                                            <Trophy className="w-3 h-3" />
+                                            Cheapest overall
+                                        </span>
+                                    )}
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {inputRows.map(row => (
+                            <tr key={row.label} className="border-b border-gray-100 dark:border-gray-700">
+                                <td className="py-2 pr-4 font-semibold text-gray-700 dark:text-gray-300">{row.label}</td>
+                                {scenarios.map((scenario, index) => (
+                                    <td key={scenario.id} className={`py-2 px-2 ${index === cheapestIndex ? 'bg-green-50 dark:bg-green-900/20' : ''}`}>
+                                        {row.render(scenario)}
+                                    </td>
+                                ))}
+                            </tr>
+                        ))}
+
+                        {comparison ? (
+                            <tr className="border-b-2 border-gray-200 dark:border-gray-600">
+                                <td className="py-3 pr-4 font-bold text-gray-800 dark:text-gray-100">Lifetime Cost</td>
+                                {comparison.lifetimeCosts.map((cost, index) => (
+                                    <td key={scenarios[index].id} className={`py-3 px-2 font-bold ${index === cheapestIndex ? 'bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-400' : 'text-gray-800 dark:text-gray-100'}`}>
+                                        {formatCurrency(cost)}
+                                    </td>
+                                ))}
+                            </tr>
+                        ) : (
+                            <tr className="border-b-2 border-gray-200 dark:border-gray-600">
+                                <td className="py-3 pr-4 font-bold text-gray-800 dark:text-gray-100">Input Issues</td>
+                                {validations.map((validation, index) => (
+                                    <td key={scenarios[index].id} className="py-3 px-2 align-top text-xs">
+                                        {validation.success ? (
+                                            <span className="text-green-700 dark:text-green-400">OK</span>
+                                        ) : (
+                                            <ul className="space-y-1 text-red-600 dark:text-red-400">
+                                                {validation.issues.map(issue => <li key={`${issue.field}:${issue.message}`}>{formatFieldLabel(issue.field)}: {issue.message}</li>)}
+                                            </ul>
+                                        )}
+                                    </td>
+                                ))}
+                            </tr>
+                        )}
+
+                        {visibleRows.map(row => (
+                            <tr key={row.field} className="border-b border-gray-100 dark:border-gray-700">
+                                <td className="py-2 pr-4 text-gray-600 dark:text-gray-400">{formatFieldLabel(row.field)}</td>
+                                {row.values.map((value, index) => (
+                                    <td
+                                        key={scenarios[index].id}
+                                        className={`py-2 px-2 ${index === cheapestIndex ? 'bg-green-50 dark:bg-green-900/20' : ''} ${row.differs && value !== row.values[0] ? 'font-semibold text-blue-700 dark:text-blue-400' : 'text-gray-800 dark:text-gray-100'}`}
+                                    >
+                                        {formatComparisonValue(row.field, value)}
+                                    </td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-4">
+                Lifetime cost is total interest plus mortgage insurance and closing costs. Values that differ from the first scenario are highlighted.
+            </p>
+        </div>
+    );
+}
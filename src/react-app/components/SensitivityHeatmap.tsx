@@ -0,0 +1,169 @@
+import { useMemo, useState } from "react";
+import { Grid3x3 } from "lucide-react";
+import { formatCurrency } from "@/shared/formatters";
+import { maxSensitivitySteps, runSensitivityAnalysis, sensitivityFields } from "@/shared/sensitivity";
+import type { SensitivityAxis, SensitivityCell, SensitivityField } from "@/shared/sensitivity";
+import type { MortgageCalculation } from "@/shared/types";
+import { useMarketData } from "@/react-app/hooks/useMarketData";
+
+type Metric = "totalMonthlyCost" | "affordabilityRating";
+
+const ratingColors: Record<string, string> = {
+    excellent: "bg-green-100 text-green-800",
+    good: "bg-blue-100 text-blue-800",
+    fair: "bg-yellow-100 text-yellow-800",
+    poor: "bg-red-100 text-red-800",
+};
+
+// A sensible range around the scenario's current value for a newly chosen axis
+function getDefaultAxis(field: SensitivityField, data: MortgageCalculation): SensitivityAxis {
+    switch (field) {
+        case "interestRate": return { field, min: Math.max(data.interestRate - 2, 0.5), max: data.interestRate + 2, steps: 5 };
+        case "amortizationYears": return { field, min: 15, max: 35, steps: 5 };
+        case "propertyValue": return { field, min: Math.round(data.propertyValue * 0.8), max: Math.round(data.propertyValue * 1.2), steps: 5 };
+        case "downPayment": return { field, min: Math.round(data.downPayment * 0.5), max: Math.round(data.downPayment * 1.5), steps: 5 };
+        case "grossAnnualIncome": return { field, min: Math.round(data.grossAnnualIncome * 0.8), max: Math.round(data.grossAnnualIncome * 1.2), steps: 5 };
+    }
+}
+
+function formatAxisValue(field: SensitivityField, value: number): string {
+    if (field === "interestRate") return `${value.toFixed(2)}%`;
+    if (field === "amortizationYears") return `${value} yrs`;
+    return formatCurrency(value).replace(/\.00$/, "");
+}
+
+// Green for the cheapest cell through red for the most expensive
+function getCostColor(cost: number, min: number, max: number): string {
+    const position = max > min ? (cost - min) / (max - min) : 0;
+    return `hsl(${Math.round(120 - position * 120)}, 70%, 85%)`;
+}
+
+export default function SensitivityHeatmap({ baseScenario }: { baseScenario: MortgageCalculation }) {
+    const { marketData } = useMarketData();
+    const [rows, setRows] = useState<SensitivityAxis>(() => getDefaultAxis("interestRate", baseScenario));
+    const [columns, setColumns] = useState<SensitivityAxis>(() => getDefaultAxis("amortizationYears", baseScenario));
+    const [metric, setMetric] = useState<Metric>("totalMonthlyCost");
+
+    // baseScenario is the last calculated (validated, debounced) input, so the grid only reruns when the results do
+    const grid = useMemo(
+        () => runSensitivityAnalysis(baseScenario, rows, columns, marketData),
+        [baseScenario, rows, columns, marketData]
+    );
+
+    const costs = grid.cells.flat().flatMap(cell => cell.valid ? [cell.totalMonthlyCost] : []);
+    const minCost = Math.min(...costs);
+    const maxCost = Math.max(...costs);
+
+    const inputClassName = "w-full px-3 py-2 border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent shadow-sm";
+
+    const renderAxisControls = (label: string, axis: SensitivityAxis, setAxis: (axis: SensitivityAxis) => void, otherField: SensitivityField) => (
+        <div className="space-y-2">
+            <p className="text-sm font-semibold text-gray-700 dark:text-gray-300">{label}</p>
+            <select
+                value={axis.field}
+                onChange={(e) => setAxis(getDefaultAxis(e.target.value as SensitivityField, baseScenario))}
+                className={`${inputClassName} appearance-none bg-white`}
+            >
+                {(Object.keys(sensitivityFields) as SensitivityField[]).map(field => (
+                    <option key={field} value={field} disabled={field === otherField}>{sensitivityFields[field].label}</option>
+                ))}
+            </select>
+            <div className="grid grid-cols-3 gap-2">
+                {([
+                    { key: "min", label: "From" },
+                    { key: "max", label: "To" },
+                    { key: "steps", label: "Steps" },
+                ] as const).map(({ key, label }) => (
+                    <div key={key}>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">{label}</p>
+                        <input
+                            type="number"
+                            min={key === "steps" ? 2 : undefined}
+                            max={key === "steps" ? maxSensitivitySteps : undefined}
+                            step={axis.field === "interestRate" && key !== "steps" ? "0.25" : undefined}
+                            value={axis[key]}
+                            onChange={(e) => setAxis({ ...axis, [key]: parseFloat(e.target.value) || 0 })}
+                            className={inputClassName}
+                        />
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+
+    const renderCell = (cell: SensitivityCell, index: number) => {
+        if (!cell.valid) {
+            return (
+                <td key={index} className="p-2 text-center text-gray-400 bg-gray-100 dark:bg-gray-700" title={cell.issues.map(issue => issue.message).join("\n")}>
+                    n/a
+                </td>
+            );
+        }
+        if (metric === "affordabilityRating") {
+            return (
+                <td key={index} className={`p-2 text-center font-semibold capitalize ${ratingColors[cell.affordabilityRating]}`}>
+                    {cell.affordabilityRating}
+                </td>
+            );
+        }
+        return (
+            <td key={index} className="p-2 text-center font-semibold text-gray-800" style={{ backgroundColor: getCostColor(cell.totalMonthlyCost, minCost, maxCost) }}>
+                {formatCurrency(cell.totalMonthlyCost).replace(/\.\d{2}$/, "")}
+            </td>
+        );
+    };
+
+    return (
+        <div className="bg-white dark:bg-gray-800 rounded-3xl shadow-xl border border-gray-100 dark:border-gray-700 p-8">
+            <div className="flex items-center justify-between gap-4 mb-6">
+                <div className="flex items-center gap-3">
+                    <Grid3x3 className="w-6 h-6 text-blue-600" />
+                    <h3 className="text-xl font-bold text-gray-800 dark:text-gray-100">Sensitivity</h3>
+                </div>
+                <select
+                    value={metric}
+                    onChange={(e) => setMetric(e.target.value as Metric)}
+                    className="px-3 py-2 text-sm border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded-xl appearance-none bg-white shadow-sm"
+                >
+                    <option value="totalMonthlyCost">Total monthly cost</option>
+                    <option value="affordabilityRating">Affordability rating</option>
+                </select>
+            </div>
+
+            <div className="grid sm:grid-cols-2 gap-4 mb-6">
+                {renderAxisControls("Rows", rows, setRows, columns.field)}
+                {renderAxisControls("Columns", columns, setColumns, rows.field)}
+            </div>
+
+            <div className="overflow-x-auto">
+                <table className="w-full text-xs border-separate border-spacing-1">
+                    <thead>
+                        <tr>
+                            <th className="p-2 text-left text-gray-500 dark:text-gray-400 font-medium">
+                                {sensitivityFields[rows.field].label} ↓ / {sensitivityFields[columns.field].label} →
+                            </th>
+                            {grid.columnValues.map(value => (
+                                <th key={value} className="p-2 text-center font-semibold text-gray-700 dark:text-gray-300">
+                                    {formatAxisValue(columns.field, value)}
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {grid.rowValues.map((rowValue, rowIndex) => (
+                            <tr key={rowValue}>
+                                <th className="p-2 text-left font-semibold text-gray-700 dark:text-gray-300">
+                                    {formatAxisValue(rows.field, rowValue)}
+                                </th>
+                                {grid.cells[rowIndex].map(renderCell)}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-4">
+                Every cell recalculates the monthly cost and debt ratios of your scenario with the two inputs changed. Cells marked n/a break a mortgage rule or input limit; hover for the reason.
+            </p>
+        </div>
+    );
+}
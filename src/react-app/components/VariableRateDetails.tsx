@@ -0,0 +1,83 @@
+import { TrendingUp } from "lucide-react";
+import { formatCurrency } from "@/shared/formatters";
+import type { VariableRateAnalysis } from "@/shared/types";
+
+export default function VariableRateDetails({ analysis }: { analysis: VariableRateAnalysis }) {
+    const isFixedPayment = analysis.paymentType === "fixed";
+
+    return (
+        <div className="bg-white dark:bg-gray-800 rounded-3xl shadow-xl border border-gray-100 dark:border-gray-700 p-8">
+            <div className="flex items-center gap-3 mb-6">
+                <TrendingUp className="w-6 h-6 text-blue-600" />
+                <h3 className="text-xl font-bold text-gray-800 dark:text-gray-100">Variable Rate Outlook</h3>
+            </div>
+
+            <div className="space-y-4 mb-6">
+                <div className="flex justify-between">
+                    <span className="text-gray-600 dark:text-gray-400">Payment Structure</span>
+                    <span className="font-semibold dark:text-gray-100">{isFixedPayment ? "Fixed payment" : "Adjustable payment"}</span>
+                </div>
+                <div className="flex justify-between">
+                    <span className="text-gray-600 dark:text-gray-400">Peak Projected Rate</span>
+                    <span className="font-semibold dark:text-gray-100">{analysis.peakRate.toFixed(2)}%</span>
+                </div>
+                <div className="flex justify-between">
+                    <span className="text-gray-600 dark:text-gray-400">Peak Regular Payment</span>
+                    <span className="font-semibold dark:text-gray-100">{formatCurrency(analysis.peakPayment)}</span>
+                </div>
+                {isFixedPayment && analysis.triggerRate !== null && (
+                    <>
+                        <div className="flex justify-between">
+                            <span className="text-gray-600 dark:text-gray-400">Trigger Rate</span>
+                            <span className="font-semibold dark:text-gray-100">
+                                {analysis.triggerRate.toFixed(2)}%{analysis.triggerRateDate && ` (reached ${analysis.triggerRateDate})`}
+                            </span>
+                        </div>
+                        <div className="flex justify-between">
+                            <span className="text-gray-600 dark:text-gray-400">Negative Amortization</span>
+                            <span className={`font-semibold ${analysis.negativeAmortizationDate ? 'text-red-600 dark:text-red-400' : 'dark:text-gray-100'}`}>
+                                {analysis.negativeAmortizationDate ? `From ${analysis.negativeAmortizationDate}` : "Not projected"}
+                            </span>
+                        </div>
+                        {analysis.triggerPointBalance !== null && (
+                            <div className="flex justify-between">
+                                <span className="text-gray-600 dark:text-gray-400">Trigger Point ({formatCurrency(analysis.triggerPointBalance)})</span>
+                                <span className={`font-semibold ${analysis.triggerPointDate ? 'text-red-600 dark:text-red-400' : 'dark:text-gray-100'}`}>
+                                    {analysis.triggerPointDate ? `Reached ${analysis.triggerPointDate}` : "Not projected"}
+                                </span>
+                            </div>
+                        )}
+                    </>
+                )}
+            </div>
+
+            {analysis.rateChanges.length > 0 && (
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-left text-gray-600 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                                <th className="py-2 pr-4 font-semibold">From</th>
+                                <th className="py-2 pr-4 font-semibold text-right">Rate</th>
+                                <th className="py-2 font-semibold text-right">Payment</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {analysis.rateChanges.map(change => (
+                                <tr key={change.date} className="border-b border-gray-100 dark:border-gray-700 text-gray-800 dark:text-gray-100">
+                                    <td className="py-2 pr-4">{change.date}</td>
+                                    <td className="py-2 pr-4 text-right">{change.rate.toFixed(2)}%</td>
+                                    <td className="py-2 text-right">{formatCurrency(change.payment)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-4">
+                {isFixedPayment
+                    ? "With a fixed payment, rate increases go to interest first. Above the trigger rate the payment no longer covers interest, and at the trigger point the lender raises the payment."
+                    : "With an adjustable payment, every prime rate move changes the payment so the amortization stays on schedule."}
+            </p>
+        </div>
+    );
+}
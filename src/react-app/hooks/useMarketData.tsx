@@ -0,0 +1,44 @@
+import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import type { MarketData } from '@/shared/types';
+import { defaultMarketData } from '@/shared/marketData';
+import { fetchMarketData } from '@/react-app/api/marketData';
+
+interface MarketDataContextType {
+  marketData: MarketData;
+  isFallback: boolean; // True while the bundled defaults are in use
+}
+
+const MarketDataContext = createContext<MarketDataContextType | undefined>(undefined);
+
+export function MarketDataProvider({ children }: { children: ReactNode }) {
+  const [state, setState] = useState<MarketDataContextType>({ marketData: defaultMarketData, isFallback: true });
+
+  useEffect(() => {
+    let cancelled = false;
+
+    // Keep the bundled defaults if the published dataset can't be loaded
+    fetchMarketData()
+      .then(marketData => {
+        if (!cancelled) setState({ marketData, isFallback: false });
+      })
+      .catch(() => undefined);
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return (
+    <MarketDataContext.Provider value={state}>
+      {children}
+    </MarketDataContext.Provider>
+  );
+}
+
+export function useMarketData() {
+  const context = useContext(MarketDataContext);
+  if (context === undefined) {
+    throw new Error('useMarketData must be used within a MarketDataProvider');
+  }
+  return context;
+}
@@ -28,6 +28,19 @@ export function ThemeProvider({ children }: { children: ReactNode }) {
     }
   }, [theme]);
 
+  // Printed reports are always light; the chosen theme comes back once the print dialog closes
+  useEffect(() => {
+    const handleBeforePrint = () => document.documentElement.classList.remove('dark');
+    const handleAfterPrint = () => document.documentElement.classList.toggle('dark', theme === 'dark');
+
+    window.addEventListener('beforeprint', handleBeforePrint);
+    window.addEventListener('afterprint', handleAfterPrint);
+    return () => {
+      window.removeEventListener('beforeprint', handleBeforePrint);
+      window.removeEventListener('afterprint', handleAfterPrint);
+    };
+  }, [theme]);
+
   const toggleTheme = () => {
     setTheme(prev => prev === 'light' ? 'dark' : 'light');
   };
@@ -1,5 +1,5 @@
 import MortgageCalculator from '@/react-app/components/MortgageCalculator'
 
 export default function Home() {
-  return <MortgageCalculator />;
+  return <MortgageCalculator syncWithUrl />;
 }
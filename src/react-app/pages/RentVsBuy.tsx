@@ -0,0 +1,252 @@
+import { useMemo, useState } from "react";
+import { Link, useLocation } from "react-router";
+import { ArrowLeft, Home as HomeIcon, Scale } from "lucide-react";
+import { MortgageCalculationSchema, RentVsBuyAssumptionsSchema } from "@/shared/types";
+import type { MortgageCalculation, RentVsBuyAssumptions } from "@/shared/types";
+import { calculateMortgage, validateMortgageCalculation } from "@/shared/mortgageCalculator";
+import { MortgageRulesError } from "@/shared/cmhcInsurance";
+import { analyzeRentVsBuy } from "@/shared/rentVsBuy";
+import { formatCurrency } from "@/shared/formatters";
+import { calculationToSearchParams } from "@/shared/calculationQuery";
+import { parseFormValues } from "@/shared/formValues";
+import type { FormValues } from "@/shared/formValues";
+import { formatValidationIssues, inputErrorMap } from "@/shared/validation";
+import type { ValidationIssue } from "@/shared/validation";
+import { useMarketData } from "@/react-app/hooks/useMarketData";
+import NetWorthChart from "@/react-app/components/NetWorthChart";
+
+const inputClassName = "w-full px-4 py-3 border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 shadow-sm";
+const labelClassName = "block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2";
+
+// First issue for each field, shown under its input
+function getFieldErrors(issues: ValidationIssue[]): Record<string, string> {
+  const errors: Record<string, string> = {};
+  for (const issue of issues) {
+    if (!(issue.field in errors)) errors[issue.field] = issue.message;
+  }
+  return errors;
+}
+
+// Inline message under an input; renders nothing when the field is valid
+function FieldError({ message }: { message?: string }) {
+  if (!message) return null;
+  return <p className="text-xs text-red-600 dark:text-red-400 mt-1">{message}</p>;
+}
+
+export default function RentVsBuy() {
+  const { marketData } = useMarketData();
+  const location = useLocation();
+
+  // The calculator passes its current inputs in navigation state; otherwise start from a typical purchase.
+  // Number inputs hold their text as typed and are checked against the schemas before projecting.
+  const [fromCalculator] = useState(() => {
+    const parsed = MortgageCalculationSchema.safeParse(location.state);
+    return parsed.success ? parsed.data : null;
+  });
+  const [purchase, setPurchase] = useState<FormValues<MortgageCalculation>>(() => fromCalculator ?? MortgageCalculationSchema.parse({
+    propertyValue: 400000,
+    downPayment: 80000,
+    interestRate: marketData.currentInterestRates.fixed5Year,
+    amortizationYears: 25,
+    propertyType: "single-family",
+    heatingType: "gas",
+    isFirstTimeBuyer: false,
+    grossAnnualIncome: 110000,
+  }));
+  const [assumptions, setAssumptions] = useState<FormValues<RentVsBuyAssumptions>>(() => RentVsBuyAssumptionsSchema.parse({ monthlyRent: 1800 }));
+
+  const purchaseValidation = useMemo(() => validateMortgageCalculation(parseFormValues(MortgageCalculationSchema, purchase)), [purchase]);
+  const assumptionsValidation = useMemo(
+    () => RentVsBuyAssumptionsSchema.safeParse(parseFormValues(RentVsBuyAssumptionsSchema, assumptions), { errorMap: inputErrorMap }),
+    [assumptions]
+  );
+  const purchaseErrors = useMemo(() => getFieldErrors(purchaseValidation.success ? [] : purchaseValidation.issues), [purchaseValidation]);
+  const assumptionErrors = useMemo(
+    () => getFieldErrors(assumptionsValidation.success ? [] : formatValidationIssues(assumptionsValidation.error)),
+    [assumptionsValidation]
+  );
+
+  // Only inputs that pass both schemas are projected; otherwise the issues show beside the fields
+  const analysis = useMemo(() => {
+    if (!purchaseValidation.success || !assumptionsValidation.success) {
+      return { result: null, rentVsBuy: null, error: "Fix the highlighted inputs to see the projection." };
+    }
+    try {
+      const result = calculateMortgage(purchaseValidation.data, marketData);
+      return { result, rentVsBuy: analyzeRentVsBuy(purchaseValidation.data, result, assumptionsValidation.data), error: null };
+    } catch (err) {
+      return { result: null, rentVsBuy: null, error: err instanceof MortgageRulesError ? err.message : "Failed to calculate. Please check your inputs." };
+    }
+  }, [purchaseValidation, assumptionsValidation, marketData]);
+
+  const updatePurchase = (field: keyof MortgageCalculation, value: number | string) => {
+    setPurchase(prev => ({ ...prev, [field]: value, ...(field === "municipality" ? { schoolDivision: undefined } : {}) }));
+  };
+
+  const updateAssumption = (field: keyof RentVsBuyAssumptions, value: number | string) => {
+    setAssumptions(prev => ({ ...prev, [field]: value }));
+  };
+
+  const purchaseFields: { field: keyof MortgageCalculation; label: string; step?: string }[] = [
+    { field: "propertyValue", label: "Purchase Price" },
+    { field: "downPayment", label: "Down Payment" },
+    { field: "interestRate", label: "Interest Rate (%)", step: "0.01" },
+  ];
+
+  const assumptionFields: { field: keyof RentVsBuyAssumptions; label: string; step?: string }[] = [
+    { field: "monthlyRent", label: "Monthly Rent" },
+    { field: "rentIncreasePercent", label: "Rent Increase (%/yr)", step: "0.1" },
+    { field: "homeAppreciationPercent", label: "Home Appreciation (%/yr)", step: "0.1" },
+    { field: "investmentReturnPercent", label: "Investment Return (%/yr)", step: "0.1" },
+    { field: "maintenancePercent", label: "Maintenance (% of value/yr)", step: "0.1" },
+    { field: "sellingCostPercent", label: "Selling Costs (%)", step: "0.1" },
+  ];
+
+  const { rentVsBuy } = analysis;
+  const finalYear = rentVsBuy?.years[rentVsBuy.years.length - 1];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900">
+      <div className="max-w-6xl mx-auto px-4 py-8">
+        <Link to={fromCalculator ? { pathname: "/", search: calculationToSearchParams(fromCalculator).toString() } : "/"} className="inline-flex items-center gap-2 text-blue-600 dark:text-blue-400 font-semibold hover:underline mb-8">
+          <ArrowLeft className="w-4 h-4" />
+          Back to the calculator
+        </Link>
+
+        <div className="flex items-center gap-3 mb-2">
+          <Scale className="w-8 h-8 text-blue-600" />
+          <h1 className="text-3xl font-bold text-gray-800 dark:text-gray-100">Rent vs Buy</h1>
+        </div>
+        <p className="text-gray-600 dark:text-gray-300 mb-8">
+          Compare your net worth after owning against renting and investing the money you would have put into the home.
+        </p>
+
+        <div className="grid lg:grid-cols-3 gap-8">
+          <div className="bg-white dark:bg-gray-800 rounded-3xl shadow-xl border border-gray-100 dark:border-gray-700 p-8 space-y-4">
+            <h2 className="text-xl font-bold text-gray-800 dark:text-gray-100 flex items-center gap-2">
+              <HomeIcon className="w-5 h-5 text-blue-600" />
+              Buying
+            </h2>
+            {purchaseFields.map(({ field, label, step }) => (
+              <div key={field}>
+                <label className={labelClassName}>{label}</label>
+                <input
+                  type="number"
+                  step={step}
+                  value={purchase[field] as number | string}
+                  onChange={(e) => updatePurchase(field, e.target.value)}
+                  className={inputClassName}
+                />
+                <FieldError message={purchaseErrors[field]} />
+              </div>
+            ))}
+            <div>
+              <label className={labelClassName}>Amortization (Years)</label>
+              <select value={purchase.amortizationYears} onChange={(e) => updatePurchase('amortizationYears', parseInt(e.target.value))} className={`${inputClassName} appearance-none bg-white`}>
+                {[15, 20, 25, 30, 35].map(years => <option key={years} value={years}>{years} years</option>)}
+              </select>
+              <FieldError message={purchaseErrors.amortizationYears} />
+            </div>
+            <div>
+              <label className={labelClassName}>Municipality</label>
+              <select value={purchase.municipality} onChange={(e) => updatePurchase('municipality', e.target.value)} className={`${inputClassName} appearance-none bg-white`}>
+                {Object.entries(marketData.municipalities).map(([value, profile]) => <option key={value} value={value}>{profile.name}</option>)}
+              </select>
+              <FieldError message={purchaseErrors.municipality ?? purchaseErrors.schoolDivision} />
+            </div>
+
+            <h2 className="text-xl font-bold text-gray-800 dark:text-gray-100 pt-4">Renting & Assumptions</h2>
+            {assumptionFields.map(({ field, label, step }) => (
+              <div key={field}>
+                <label className={labelClassName}>{label}</label>
+                <input
+                  type="number"
+                  step={step}
+                  value={assumptions[field]}
+                  onChange={(e) => updateAssumption(field, e.target.value)}
+                  className={inputClassName}
+                />
+                <FieldError message={assumptionErrors[field]} />
+              </div>
+            ))}
+            <div>
+              <label className={labelClassName}>Years to Project</label>
+              <select value={assumptions.years} onChange={(e) => updateAssumption('years', parseInt(e.target.value))} className={`${inputClassName} appearance-none bg-white`}>
+                {[3, 5, 10, 15, 20, 25, 30].map(years => <option key={years} value={years}>{years} years</option>)}
+              </select>
+              <FieldError message={assumptionErrors.years} />
+            </div>
+          </div>
+
+          <div className="lg:col-span-2 space-y-8">
+            {analysis.error && (
+              <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl text-red-600 dark:text-red-400 text-sm font-medium">
+                {analysis.error}
+              </div>
+            )}
+
+            {rentVsBuy && finalYear && (
+              <>
+                <div className="grid sm:grid-cols-3 gap-4">
+                  <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg border border-gray-100 dark:border-gray-700 p-6">
+                    <p className="text-sm text-gray-500 dark:text-gray-400">Break-even</p>
+                    <p className="text-2xl font-bold text-green-600 dark:text-green-400">
+                      {rentVsBuy.breakEvenYear === null ? "Not reached" : `Year ${rentVsBuy.breakEvenYear}`}
+                    </p>
+                  </div>
+                  <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg border border-gray-100 dark:border-gray-700 p-6">
+                    <p className="text-sm text-gray-500 dark:text-gray-400">Buying net worth (yr {finalYear.year})</p>
+                    <p className="text-2xl font-bold text-blue-600 dark:text-blue-400">{formatCurrency(finalYear.ownerNetWorth)}</p>
+                  </div>
+                  <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg border border-gray-100 dark:border-gray-700 p-6">
+                    <p className="text-sm text-gray-500 dark:text-gray-400">Renting net worth (yr {finalYear.year})</p>
+                    <p className="text-2xl font-bold text-amber-500">{formatCurrency(finalYear.renterNetWorth)}</p>
+                  </div>
+                </div>
+
+                <div className="bg-white dark:bg-gray-800 rounded-3xl shadow-xl border border-gray-100 dark:border-gray-700 p-8">
+                  <h3 className="text-xl font-bold text-gray-800 dark:text-gray-100 mb-4">Net Worth Over Time</h3>
+                  <NetWorthChart data={rentVsBuy.years} breakEvenYear={rentVsBuy.breakEvenYear} />
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-4">
+                    Buying starts with {formatCurrency(rentVsBuy.initialInvestment)} in down payment and closing costs; renting invests that amount instead.
+                    Each year, whichever option costs less invests the difference. Owning costs {formatCurrency(rentVsBuy.totalOwnerCost)} in
+                    interest, carrying costs and closing costs over the period, against {formatCurrency(rentVsBuy.totalRentPaid)} in rent.
+                  </p>
+                </div>
+
+                <div className="bg-white dark:bg-gray-800 rounded-3xl shadow-xl border border-gray-100 dark:border-gray-700 p-8 overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b border-gray-200 dark:border-gray-700 text-left text-gray-600 dark:text-gray-400">
+                        <th className="py-2 pr-4">Year</th>
+                        <th className="py-2 pr-4">Home Value</th>
+                        <th className="py-2 pr-4">Mortgage Balance</th>
+                        <th className="py-2 pr-4">Owning Cost</th>
+                        <th className="py-2 pr-4">Rent</th>
+                        <th className="py-2 pr-4">Buying Net Worth</th>
+                        <th className="py-2">Renting Net Worth</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {rentVsBuy.years.map(year => (
+                        <tr key={year.year} className={`border-b border-gray-100 dark:border-gray-700 ${year.year === rentVsBuy.breakEvenYear ? 'bg-green-50 dark:bg-green-900/20' : ''}`}>
+                          <td className="py-2 pr-4 font-semibold text-gray-800 dark:text-gray-100">{year.year}</td>
+                          <td className="py-2 pr-4 text-gray-700 dark:text-gray-300">{formatCurrency(year.homeValue)}</td>
+                          <td className="py-2 pr-4 text-gray-700 dark:text-gray-300">{formatCurrency(year.mortgageBalance)}</td>
+                          <td className="py-2 pr-4 text-gray-700 dark:text-gray-300">{formatCurrency(year.ownerCost)}</td>
+                          <td className="py-2 pr-4 text-gray-700 dark:text-gray-300">{formatCurrency(year.rentPaid)}</td>
+                          <td className="py-2 pr-4 font-semibold text-blue-600 dark:text-blue-400">{formatCurrency(year.ownerNetWorth)}</td>
+                          <td className="py-2 font-semibold text-amber-500">{formatCurrency(year.renterNetWorth)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "react-router";
+import MortgageCalculator from "@/react-app/components/MortgageCalculator";
+import { fetchScenario } from "@/react-app/api/scenarios";
+import type { SavedScenario } from "@/shared/types";
+
+export default function SharedScenario() {
+  const { id } = useParams();
+  const [scenario, setScenario] = useState<SavedScenario | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!id) return;
+    fetchScenario(id)
+      .then(setScenario)
+      .catch(err => setError(err instanceof Error ? err.message : "Failed to load scenario."));
+  }, [id]);
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 bg-gradient-to-br from-blue-50 via-white to-indigo-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900">
+        <p className="text-lg text-gray-700 dark:text-gray-300">{error}</p>
+        <Link to="/" className="text-blue-600 dark:text-blue-400 font-semibold hover:underline">Start a new calculation</Link>
+      </div>
+    );
+  }
+
+  if (!scenario) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 via-white to-indigo-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900">
+        <p className="text-gray-600 dark:text-gray-400">Loading scenario...</p>
+      </div>
+    );
+  }
+
+  return <MortgageCalculator key={scenario.id} initialData={scenario.input} scenarioName={scenario.name} />;
+}
@@ -0,0 +1,78 @@
+import type { DebtServiceRatios, MortgageCalculation } from "./types";
+
+// CMHC maximum debt service ratios, as a percentage of gross monthly income
+export const cmhcRatioLimits = {
+  gds: 39,
+  tds: 44,
+};
+
+// Share (percent) of gross rental income CMHC allows toward qualifying income on owner-occupied
+// multi-unit homes: 100% for a duplex, 50% for three and four units
+export function getRentalOffsetPercent(numberOfUnits: number): number {
+  return numberOfUnits <= 2 ? 100 : 50;
+}
+
+// Monthly rental income that counts toward qualification (multi-family properties only)
+export function getRentalIncomeCounted(data: MortgageCalculation): number {
+  if (data.propertyType !== "multi-family") return 0;
+  return (data.monthlyRentalIncome * getRentalOffsetPercent(data.numberOfUnits)) / 100;
+}
+
+// Household income used for GDS/TDS, including any rental income offset
+export function getQualifyingAnnualIncome(data: MortgageCalculation): number {
+  return data.grossAnnualIncome + getRentalIncomeCounted(data) * 12;
+}
+
+// Sum of the borrower's non-housing monthly debt obligations
+export function getMonthlyDebtPayments(data: MortgageCalculation): number {
+  return data.monthlyCarLoanPayments +
+    data.monthlyCreditCardPayments +
+    data.monthlySupportPayments +
+    data.monthlyOtherDebtPayments;
+}
+
+// Housing costs counted by CMHC for GDS: principal and interest, property tax, heating and half of condo fees
+export function getQualifyingHousingCost(
+  mortgagePayment: number,
+  monthlyPropertyTax: number,
+  monthlyHeating: number,
+  monthlyCondoFees: number
+): number {
+  return mortgagePayment + monthlyPropertyTax + monthlyHeating + monthlyCondoFees * 0.5;
+}
+
+// Compute GDS and TDS ratios and explain any CMHC threshold that is exceeded
+export function calculateDebtServiceRatios(
+  housingCost: number,
+  otherDebtPayments: number,
+  grossAnnualIncome: number
+): DebtServiceRatios {
+  const grossMonthlyIncome = grossAnnualIncome / 12;
+  const gds = (housingCost / grossMonthlyIncome) * 100;
+  const tds = ((housingCost + otherDebtPayments) / grossMonthlyIncome) * 100;
+
+  const passesGds = gds <= cmhcRatioLimits.gds;
+  const passesTds = tds <= cmhcRatioLimits.tds;
+
+  const explanations: string[] = [];
+  if (!passesGds) {
+    explanations.push(
+      `GDS of ${gds.toFixed(1)}% exceeds the CMHC limit of ${cmhcRatioLimits.gds}%: housing costs are too high for this income`
+    );
+  }
+  if (!passesTds) {
+    explanations.push(
+      `TDS of ${tds.toFixed(1)}% exceeds the CMHC limit of ${cmhcRatioLimits.tds}%: housing costs plus other debts are too high for this income`
+    );
+  }
+
+  return {
+    gds: Math.round(gds * 100) / 100,
+    tds: Math.round(tds * 100) / 100,
+    gdsLimit: cmhcRatioLimits.gds,
+    tdsLimit: cmhcRatioLimits.tds,
+    passesGds,
+    passesTds,
+    explanations,
+  };
+}
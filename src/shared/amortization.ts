@@ -0,0 +1,150 @@
+import type {
+  AmortizationPayment,
+  AmortizationSchedule,
+  AmortizationYearSummary,
+  MortgageCalculation,
+  PaymentFrequencyComparison,
+} from "./types";
+import { PaymentFrequencySchema } from "./types";
+import { getInsuredLoanAmount } from "./cmhcInsurance";
+import { getPeriodicRate } from "./interestRates";
+import { roundToCents } from "./paymentMath";
+import { getPaymentDate, getRegularPayment, paymentFrequencies } from "./paymentFrequency";
+import { getRateOnDate, isVariableRate, variableRateRules } from "./variableRate";
+
+// Roll individual payments up into loan-year subtotals
+function summarizeByYear(payments: AmortizationPayment[]): AmortizationYearSummary[] {
+  const summaries: AmortizationYearSummary[] = [];
+
+  payments.forEach(payment => {
+    let summary = summaries[payment.year - 1];
+    if (!summary) {
+      summary = { year: payment.year, totalPaid: 0, totalInterest: 0, totalPrincipal: 0, totalPrepayment: 0, endingBalance: 0 };
+      summaries.push(summary);
+    }
+
+    summary.totalPaid = roundToCents(summary.totalPaid + payment.payment + payment.prepayment);
+    summary.totalInterest = roundToCents(summary.totalInterest + payment.interest);
+    summary.totalPrincipal = roundToCents(summary.totalPrincipal + payment.principal);
+    summary.totalPrepayment = roundToCents(summary.totalPrepayment + payment.prepayment);
+    summary.endingBalance = payment.balance;
+  });
+
+  return summaries;
+}
+
+// Lender's yearly limit on lump-sum prepayments, as a share of the original loan amount
+export function getAnnualPrepaymentCap(loanAmount: number, prepaymentCapPercent: number): number {
+  return roundToCents((loanAmount * prepaymentCapPercent) / 100);
+}
+
+// Build the period-by-period repayment schedule for a mortgage at its payment frequency,
+// with the first payment due one period after startDate. Any increased payment, annual lump
+// sum and one-off prepayments are applied, with lump sums limited to the lender's yearly cap.
+// Variable rates follow the projected prime-rate path: an adjustable payment is recalculated
+// at every move, while a fixed payment only resets at the trigger point and at each renewal.
+export function generateAmortizationSchedule(data: MortgageCalculation, startDate: Date = new Date()): AmortizationSchedule {
+  const loanAmount = roundToCents(getInsuredLoanAmount(data));
+
+  const { paymentsPerYear } = paymentFrequencies[data.paymentFrequency];
+  const maxPayments = data.amortizationYears * paymentsPerYear;
+  const termPayments = data.termYears * paymentsPerYear;
+  const isFixedPayment = isVariableRate(data) && data.variablePaymentType === "fixed";
+  const triggerPointBalance = (loanAmount * variableRateRules.triggerPointPercent) / 100;
+  const startIsoDate = startDate.toISOString().slice(0, 10);
+
+  // Payment that retires the balance over the payments left, including any voluntary increase
+  const getPayment = (balance: number, rate: number, remainingPayments: number) => roundToCents(
+    getRegularPayment(balance, rate, data.compounding, remainingPayments / paymentsPerYear, data.paymentFrequency) *
+    (1 + data.paymentIncreasePercent / 100)
+  );
+
+  let rate = data.interestRate;
+  let periodicRate = getPeriodicRate(rate, data.compounding, paymentsPerYear);
+  let regularPayment = getPayment(loanAmount, rate, maxPayments);
+  const annualPrepaymentCap = getAnnualPrepaymentCap(loanAmount, data.prepaymentCapPercent);
+  const oneTimePrepayments = [...data.oneTimePrepayments].sort((a, b) => a.date.localeCompare(b.date));
+
+  const payments: AmortizationPayment[] = [];
+  let balance = loanAmount;
+  let nextOneTimePrepayment = 0;
+  let prepaidThisYear = 0;
+  let prepaymentReducedByCap = 0;
+
+  // Accelerated frequencies retire the balance before maxPayments is reached
+  for (let paymentNumber = 1; paymentNumber <= maxPayments && balance > 0; paymentNumber++) {
+    const date = getPaymentDate(startDate, paymentNumber, data.paymentFrequency).toISOString().slice(0, 10);
+    const remainingPayments = maxPayments - paymentNumber + 1;
+
+    const periodRate = getRateOnDate(data, date, startIsoDate);
+    if (periodRate !== rate) {
+      rate = periodRate;
+      periodicRate = getPeriodicRate(rate, data.compounding, paymentsPerYear);
+      if (!isFixedPayment) regularPayment = getPayment(balance, rate, remainingPayments);
+    }
+    const isRenewal = paymentNumber > 1 && (paymentNumber - 1) % termPayments === 0;
+    if (isFixedPayment && (isRenewal || balance > triggerPointBalance)) {
+      regularPayment = getPayment(balance, rate, remainingPayments);
+    }
+
+    const interest = roundToCents(balance * periodicRate);
+    // The final payment absorbs any rounding difference so the loan closes at exactly zero
+    const principal = paymentNumber === maxPayments
+      ? balance
+      : Math.min(roundToCents(regularPayment - interest), balance);
+    balance = roundToCents(balance - principal);
+
+    const year = Math.ceil(paymentNumber / paymentsPerYear);
+    if (paymentNumber % paymentsPerYear === 1) prepaidThisYear = 0;
+
+    // One-off prepayments are applied with the first payment on or after their date,
+    // and the annual lump sum on each loan anniversary
+    let requestedPrepayment = 0;
+    while (nextOneTimePrepayment < oneTimePrepayments.length && oneTimePrepayments[nextOneTimePrepayment].date <= date) {
+      requestedPrepayment += oneTimePrepayments[nextOneTimePrepayment].amount;
+      nextOneTimePrepayment++;
+    }
+    if (paymentNumber % paymentsPerYear === 0) requestedPrepayment += data.annualLumpSumPrepayment;
+
+    // Lump sums and one-off prepayments share the yearly cap; only the cut, not what the balance didn't need, counts as reduced
+    const requestedWithinBalance = Math.min(requestedPrepayment, balance);
+    const prepayment = roundToCents(Math.min(requestedWithinBalance, Math.max(annualPrepaymentCap - prepaidThisYear, 0)));
+    prepaymentReducedByCap += requestedWithinBalance - prepayment;
+    prepaidThisYear += prepayment;
+    balance = roundToCents(balance - prepayment);
+
+    payments.push({
+      paymentNumber,
+      year,
+      date,
+      rate,
+      payment: roundToCents(interest + principal),
+      interest,
+      principal: roundToCents(principal),
+      prepayment,
+      balance,
+    });
+  }
+
+  return {
+    payments,
+    yearlySummaries: summarizeByYear(payments),
+    prepaymentReducedByCap: roundToCents(prepaymentReducedByCap),
+  };
+}
+
+// Payment, total interest and payoff date for every supported frequency
+export function comparePaymentFrequencies(data: MortgageCalculation, startDate: Date = new Date()): PaymentFrequencyComparison[] {
+  return PaymentFrequencySchema.options.map(frequency => {
+    const { payments } = generateAmortizationSchedule({ ...data, paymentFrequency: frequency }, startDate);
+    const lastPayment = payments[payments.length - 1];
+
+    return {
+      frequency,
+      payment: payments[0]?.payment ?? 0,
+      totalInterest: roundToCents(payments.reduce((sum, payment) => sum + payment.interest, 0)),
+      payoffDate: lastPayment?.date ?? startDate.toISOString().slice(0, 10),
+      yearsToPayoff: Math.round((payments.length / paymentFrequencies[frequency].paymentsPerYear) * 10) / 10,
+    };
+  });
+}
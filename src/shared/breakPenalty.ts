@@ -0,0 +1,102 @@
+import type { PostedRate, RefinanceCalculation, RefinanceResult } from "./types";
+import { getPeriodicRate } from "./interestRates";
+import { calculatePeriodicPayment, roundToCents } from "./paymentMath";
+import { getRegularPayment } from "./paymentFrequency";
+
+// Simple interest on the balance for three months at the contract rate
+export function getThreeMonthsInterest(balance: number, contractRate: number): number {
+  return roundToCents((balance * contractRate) / 100 / 4);
+}
+
+// The posted term closest to the time left on the mortgage; ties go to the shorter term
+export function getComparisonPostedRate(postedRates: PostedRate[], remainingTermMonths: number): PostedRate {
+  const remainingYears = remainingTermMonths / 12;
+  return [...postedRates].sort((a, b) =>
+    Math.abs(a.termYears - remainingYears) - Math.abs(b.termYears - remainingYears) || a.termYears - b.termYears
+  )[0];
+}
+
+// Interest differential penalty, posted vs discounted method: today's posted rate for the remaining term,
+// less the discount off posted the borrower got at signing, is what the lender can re-lend at
+export function getIrdPenalty(balance: number, contractRate: number, comparisonRate: number, remainingTermMonths: number): number {
+  return roundToCents(Math.max((balance * (contractRate - comparisonRate)) / 100 * (remainingTermMonths / 12), 0));
+}
+
+// Month-by-month interest saved by moving the balance to the new rate, both loans amortizing
+// over the same remaining period
+function getMonthlyInterestSavings(data: RefinanceCalculation): number[] {
+  const months = Math.round(data.remainingAmortizationYears * 12);
+  const currentRate = getPeriodicRate(data.contractRate, data.compounding, 12);
+  const newRate = getPeriodicRate(data.newRate, data.newCompounding, 12);
+  const currentPayment = calculatePeriodicPayment(data.currentBalance, currentRate, months);
+  const newPayment = calculatePeriodicPayment(data.currentBalance, newRate, months);
+
+  const savings: number[] = [];
+  let currentBalance = data.currentBalance;
+  let newBalance = data.currentBalance;
+  for (let month = 0; month < months; month++) {
+    const currentInterest = currentBalance * currentRate;
+    const newInterest = newBalance * newRate;
+    savings.push(currentInterest - newInterest);
+    currentBalance -= currentPayment - currentInterest;
+    newBalance -= newPayment - newInterest;
+  }
+  return savings;
+}
+
+// Cost of breaking the mortgage early (3 months' interest or IRD) and whether switching to the
+// new rate pays for itself before the current term would have ended
+export function calculateRefinance(data: RefinanceCalculation): RefinanceResult {
+  const isFixedRate = data.compounding === "semi-annual";
+  const threeMonthsInterestPenalty = getThreeMonthsInterest(data.currentBalance, data.contractRate);
+  const postedRateDiscount = Math.max(Math.round((data.postedRateAtSigning - data.contractRate) * 100) / 100, 0);
+
+  const comparison = isFixedRate ? getComparisonPostedRate(data.postedRates, data.remainingTermMonths) : null;
+  const comparisonRate = comparison ? Math.max(Math.round((comparison.rate - postedRateDiscount) * 100) / 100, 0) : null;
+  const irdPenalty = comparisonRate === null
+    ? null
+    : getIrdPenalty(data.currentBalance, data.contractRate, comparisonRate, data.remainingTermMonths);
+
+  const penaltyMethod = irdPenalty !== null && irdPenalty > threeMonthsInterestPenalty ? "ird" : "three-months-interest";
+  const penalty = penaltyMethod === "ird" ? irdPenalty ?? 0 : threeMonthsInterestPenalty;
+  const totalCost = roundToCents(penalty + data.switchingCosts);
+
+  const currentPayment = roundToCents(
+    getRegularPayment(data.currentBalance, data.contractRate, data.compounding, data.remainingAmortizationYears, data.paymentFrequency)
+  );
+  const newPayment = roundToCents(
+    getRegularPayment(data.currentBalance, data.newRate, data.newCompounding, data.remainingAmortizationYears, data.paymentFrequency)
+  );
+
+  const monthlySavings = getMonthlyInterestSavings(data);
+  const interestSavedOverTerm = roundToCents(
+    monthlySavings.slice(0, data.remainingTermMonths).reduce((sum, saving) => sum + saving, 0)
+  );
+
+  let breakEvenMonths: number | null = null;
+  let cumulativeSavings = 0;
+  for (let month = 0; month < monthlySavings.length; month++) {
+    cumulativeSavings += monthlySavings[month];
+    if (cumulativeSavings >= totalCost) {
+      breakEvenMonths = month + 1;
+      break;
+    }
+  }
+
+  return {
+    currentPayment,
+    threeMonthsInterestPenalty,
+    postedRateDiscount,
+    comparisonTermYears: comparison?.termYears ?? null,
+    comparisonRate,
+    irdPenalty,
+    penalty,
+    penaltyMethod,
+    totalCost,
+    newPayment,
+    paymentChange: roundToCents(newPayment - currentPayment),
+    interestSavedOverTerm,
+    netSavingsOverTerm: roundToCents(interestSavedOverTerm - totalCost),
+    breakEvenMonths,
+  };
+}
@@ -0,0 +1,66 @@
+import type { AmortizationSchedule, CalculationExport, MortgageCalculation, MortgageResult } from "./types";
+import { CalculationExportSchema, MortgageCalculationSchema } from "./types";
+import { formatValidationIssues } from "./validation";
+import type { ValidationIssue } from "./validation";
+
+export type CalculationImport =
+  | { success: true; input: MortgageCalculation }
+  | { success: false; issues: ValidationIssue[] };
+
+// Only the version and input are checked on import; the result snapshot is recalculated, so an outdated one is ignored
+const CalculationImportSchema = CalculationExportSchema.pick({ schemaVersion: true, input: true });
+
+export function createCalculationExport(input: MortgageCalculation, result: MortgageResult, exportedAt = new Date()): CalculationExport {
+  return {
+    schemaVersion: 1,
+    exportedAt: exportedAt.toISOString(),
+    input,
+    result,
+  };
+}
+
+// Validate an exported file (or a bare MortgageCalculation) and return its input with defaults applied
+export function parseCalculationImport(value: unknown): CalculationImport {
+  const isExportFile = typeof value === "object" && value !== null && "schemaVersion" in value;
+
+  if (isExportFile) {
+    const parsed = CalculationImportSchema.safeParse(value);
+    return parsed.success
+      ? { success: true, input: parsed.data.input }
+      : { success: false, issues: formatValidationIssues(parsed.error) };
+  }
+
+  const parsed = MortgageCalculationSchema.safeParse(value);
+  return parsed.success
+    ? { success: true, input: parsed.data }
+    : { success: false, issues: formatValidationIssues(parsed.error) };
+}
+
+// Same as parseCalculationImport, starting from the file's text
+export function parseCalculationImportText(text: string): CalculationImport {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return { success: false, issues: [{ field: "", message: "File is not valid JSON" }] };
+  }
+  return parseCalculationImport(value);
+}
+
+// One row per payment, amounts to the cent, ready for a spreadsheet
+export function amortizationScheduleToCsv(schedule: AmortizationSchedule): string {
+  const header = ["Payment", "Year", "Date", "Rate", "Amount", "Interest", "Principal", "Prepayment", "Balance"];
+  const rows = schedule.payments.map(payment => [
+    String(payment.paymentNumber),
+    String(payment.year),
+    payment.date,
+    payment.rate.toFixed(2),
+    payment.payment.toFixed(2),
+    payment.interest.toFixed(2),
+    payment.principal.toFixed(2),
+    payment.prepayment.toFixed(2),
+    payment.balance.toFixed(2),
+  ]);
+
+  return [header, ...rows].map(row => row.join(",")).join("\r\n") + "\r\n";
+}
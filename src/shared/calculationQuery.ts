@@ -0,0 +1,71 @@
+import { ZodArray, ZodBoolean, ZodNumber, ZodObject } from "zod";
+import type { ZodTypeAny } from "zod";
+import type { MortgageCalculation } from "./types";
+import { MortgageCalculationSchema } from "./types";
+import { unwrapSchema } from "./formValues";
+
+type CalculationField = keyof MortgageCalculation;
+
+const calculationFields = Object.keys(MortgageCalculationSchema.shape) as CalculationField[];
+
+// List items are written compactly: renewalRates=5.5,6.25 and oneTimePrepayments=2027-06-01:5000
+function formatFieldValue(schema: ZodTypeAny, value: unknown): string {
+  if (schema instanceof ZodArray && Array.isArray(value)) {
+    const element = unwrapSchema(schema.element);
+    return value.map(item => formatFieldValue(element, item)).join(",");
+  }
+  if (schema instanceof ZodObject && typeof value === "object" && value !== null) {
+    const entries = value as Record<string, unknown>;
+    return Object.keys(schema.shape).map(key => String(entries[key])).join(":");
+  }
+  return String(value);
+}
+
+// Convert the text back to the type the schema expects; anything unreadable is left for the schema to reject
+function parseFieldValue(schema: ZodTypeAny, value: string): unknown {
+  if (schema instanceof ZodNumber) return value.trim() === "" ? NaN : Number(value);
+  if (schema instanceof ZodBoolean) return value === "true" ? true : value === "false" ? false : value;
+  if (schema instanceof ZodArray) {
+    const element = unwrapSchema(schema.element);
+    return value === "" ? [] : value.split(",").map(item => parseFieldValue(element, item));
+  }
+  if (schema instanceof ZodObject) {
+    const parts = value.split(":");
+    return Object.fromEntries(Object.keys(schema.shape).map((key, index) => [
+      key,
+      parseFieldValue(unwrapSchema(schema.shape[key]), parts[index] ?? ""),
+    ]));
+  }
+  return value;
+}
+
+// Every input as query parameters, skipping unset optional fields and empty lists
+export function calculationToSearchParams(data: MortgageCalculation): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const field of calculationFields) {
+    const value = data[field];
+    if (value === undefined || (Array.isArray(value) && value.length === 0)) continue;
+    params.set(field, formatFieldValue(unwrapSchema(MortgageCalculationSchema.shape[field]), value));
+  }
+  return params;
+}
+
+// Inputs from a query string, validated with MortgageCalculationSchema. Missing or malformed fields keep
+// their fallback value; returns null when the query string holds no calculation fields at all.
+export function parseCalculationSearchParams(params: URLSearchParams, fallback: MortgageCalculation): MortgageCalculation | null {
+  const fields = calculationFields.filter(field => params.has(field));
+  if (fields.length === 0) return null;
+
+  const fromParams: Record<string, unknown> = Object.fromEntries(fields.map(field => [
+    field,
+    parseFieldValue(unwrapSchema(MortgageCalculationSchema.shape[field]), params.get(field) ?? ""),
+  ]));
+  const parsed = MortgageCalculationSchema.safeParse({ ...fallback, ...fromParams });
+  if (parsed.success) return parsed.data;
+
+  // Drop the fields that failed and try again with their fallbacks
+  const invalidFields = new Set(parsed.error.issues.map(issue => String(issue.path[0])));
+  const validParams = Object.fromEntries(Object.entries(fromParams).filter(([field]) => !invalidFields.has(field)));
+  const retried = MortgageCalculationSchema.safeParse({ ...fallback, ...validParams });
+  return retried.success ? retried.data : fallback;
+}
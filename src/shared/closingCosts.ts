@@ -0,0 +1,108 @@
+import type { ClosingCosts, MortgageCalculation, MunicipalityProfile } from "./types";
+import { roundToCents } from "./paymentMath";
+import { formatCurrency } from "./formatters";
+
+// Manitoba land transfer tax: marginal rate (percent) applied to the portion of value up to each threshold
+export const manitobaLandTransferTaxBrackets = [
+  { upTo: 30000, rate: 0 },
+  { upTo: 90000, rate: 0.5 },
+  { upTo: 150000, rate: 1.0 },
+  { upTo: 200000, rate: 1.5 },
+  { upTo: Infinity, rate: 2.0 },
+];
+
+// Provincial registration fees; legal, inspection and appraisal costs come from the municipality's profile
+export const manitobaLandTitlesFees = {
+  transferRegistration: 128, // Manitoba Land Titles fee to register the transfer
+  mortgageRegistration: 128, // Manitoba Land Titles fee to register the mortgage
+};
+
+// Federal first-time buyer programs
+export const firstTimeBuyerPrograms = {
+  homeBuyersTaxCreditAmount: 10000, // Non-refundable credit base
+  homeBuyersTaxCreditRate: 15, // Lowest federal tax bracket (percent)
+  rrspHomeBuyersPlanLimit: 60000, // Per-person RRSP withdrawal limit
+};
+
+// Marginal Manitoba land transfer tax; Manitoba has no first-time buyer rebate
+export function calculateManitobaLandTransferTax(propertyValue: number): number {
+  let tax = 0;
+  let lowerBound = 0;
+
+  for (const bracket of manitobaLandTransferTaxBrackets) {
+    if (propertyValue <= lowerBound) break;
+    tax += ((Math.min(propertyValue, bracket.upTo) - lowerBound) * bracket.rate) / 100;
+    lowerBound = bracket.upTo;
+  }
+
+  return tax;
+}
+
+// Property tax adjustment between buyer and seller on closing day. From the municipality's due date (MM-DD)
+// the seller has paid the full year, so the buyer reimburses the rest of the year; before it the seller
+// credits the buyer for the days they owned the home. Days are counted in UTC, like the payment schedule.
+function calculatePropertyTaxAdjustment(annualPropertyTax: number, taxDueDate: string, closingDate: Date): number {
+  const year = closingDate.getUTCFullYear();
+  const startOfYear = Date.UTC(year, 0, 1);
+  const daysInYear = (Date.UTC(year + 1, 0, 1) - startOfYear) / 86400000;
+  const daysElapsed = Math.floor((closingDate.getTime() - startOfYear) / 86400000);
+  const [dueMonth, dueDay] = taxDueDate.split("-").map(Number);
+  const daysBeforeDueDate = (Date.UTC(year, dueMonth - 1, dueDay) - startOfYear) / 86400000;
+
+  if (daysElapsed >= daysBeforeDueDate) {
+    return annualPropertyTax * ((daysInYear - daysElapsed) / daysInYear);
+  }
+  return -annualPropertyTax * (daysElapsed / daysInYear);
+}
+
+// Estimate the one-time costs due at closing and the total cash the buyer must bring.
+// Sales tax on a mortgage insurance premium cannot be financed, so it is paid here.
+export function estimateClosingCosts(
+  data: MortgageCalculation,
+  municipality: MunicipalityProfile,
+  annualPropertyTax: number,
+  mortgageInsuranceTax: number = 0,
+  closingDate: Date = new Date()
+): ClosingCosts {
+  const landTransferTax = calculateManitobaLandTransferTax(data.propertyValue);
+  const titleRegistrationFees = manitobaLandTitlesFees.transferRegistration + manitobaLandTitlesFees.mortgageRegistration;
+  const { legalFees, homeInspection, appraisal } = municipality.closingFees;
+  const propertyTaxAdjustment = calculatePropertyTaxAdjustment(annualPropertyTax, municipality.propertyTaxDueDate, closingDate);
+
+  const totalClosingCosts = landTransferTax +
+    titleRegistrationFees +
+    legalFees +
+    homeInspection +
+    appraisal +
+    mortgageInsuranceTax +
+    propertyTaxAdjustment;
+
+  const homeBuyersTaxCredit = data.isFirstTimeBuyer
+    ? (firstTimeBuyerPrograms.homeBuyersTaxCreditAmount * firstTimeBuyerPrograms.homeBuyersTaxCreditRate) / 100
+    : 0;
+
+  const firstTimeBuyerNotes: string[] = [];
+  if (data.isFirstTimeBuyer) {
+    firstTimeBuyerNotes.push(
+      `Claim the federal Home Buyers' Tax Credit on your tax return for up to ${formatCurrency(homeBuyersTaxCredit)} back`
+    );
+    firstTimeBuyerNotes.push(
+      `The RRSP Home Buyers' Plan lets each buyer withdraw up to ${formatCurrency(firstTimeBuyerPrograms.rrspHomeBuyersPlanLimit)} tax-free toward the down payment, repaid over 15 years`
+    );
+    firstTimeBuyerNotes.push("Manitoba does not offer a land transfer tax rebate for first-time buyers");
+  }
+
+  return {
+    landTransferTax: roundToCents(landTransferTax),
+    titleRegistrationFees: roundToCents(titleRegistrationFees),
+    legalFees,
+    homeInspection,
+    appraisal,
+    propertyTaxAdjustment: roundToCents(propertyTaxAdjustment),
+    mortgageInsuranceTax: roundToCents(mortgageInsuranceTax),
+    totalClosingCosts: roundToCents(totalClosingCosts),
+    cashNeededAtClosing: roundToCents(data.downPayment + totalClosingCosts),
+    homeBuyersTaxCredit,
+    firstTimeBuyerNotes,
+  };
+}
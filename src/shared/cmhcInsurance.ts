@@ -0,0 +1,174 @@
+import type { MortgageCalculation, MortgageInsurance, MortgageInsurer } from "./types";
+import type { ValidationIssue } from "./validation";
+import { formatCurrency } from "./formatters";
+
+// Federal rules for high-ratio (less than 20% down) insured mortgages
+export const mortgageInsuranceRules = {
+  firstTierLimit: 500000, // Minimum down payment is 5% of the price up to this amount...
+  firstTierMinimumPercent: 5,
+  secondTierMinimumPercent: 10, // ...and 10% of the portion above it
+  insuredPriceLimit: 1500000, // Homes at or above this price cannot be insured and need 20% down
+  uninsuredMinimumPercent: 20,
+  standardMaxAmortization: 25,
+  extendedMaxAmortization: 30, // Available to first-time buyers
+};
+
+type MortgageInsurerProfile = {
+  label: string;
+  // Premium (percent of the loan) by maximum loan-to-value ratio. Only high-ratio tiers are listed:
+  // insurance isn't required at or below 80% LTV.
+  premiumRates: { maxLoanToValue: number; rate: number }[];
+  extendedAmortizationSurcharge: number; // Added to the premium rate above the standard amortization (percentage points)
+  premiumSalesTaxRate: number; // Manitoba retail sales tax the insurer collects on the premium, paid in cash at closing
+};
+
+// Each insurer's published standard premiums for purchases. Update an insurer's entry when it changes its table.
+export const mortgageInsurers: Record<MortgageInsurer, MortgageInsurerProfile> = {
+  cmhc: {
+    label: "CMHC",
+    premiumRates: [
+      { maxLoanToValue: 85, rate: 2.8 },
+      { maxLoanToValue: 90, rate: 3.1 },
+      { maxLoanToValue: 95, rate: 4.0 },
+    ],
+    extendedAmortizationSurcharge: 0.2,
+    premiumSalesTaxRate: 7,
+  },
+  sagen: {
+    label: "Sagen",
+    premiumRates: [
+      { maxLoanToValue: 85, rate: 2.8 },
+      { maxLoanToValue: 90, rate: 3.1 },
+      { maxLoanToValue: 95, rate: 4.0 },
+    ],
+    extendedAmortizationSurcharge: 0.2,
+    premiumSalesTaxRate: 7,
+  },
+  "canada-guaranty": {
+    label: "Canada Guaranty",
+    premiumRates: [
+      { maxLoanToValue: 85, rate: 2.8 },
+      { maxLoanToValue: 90, rate: 3.1 },
+      { maxLoanToValue: 95, rate: 4.0 },
+    ],
+    extendedAmortizationSurcharge: 0.2,
+    premiumSalesTaxRate: 7,
+  },
+};
+
+// Thrown when inputs break mortgage insurance (or property tax) rules, with one issue per offending field
+export class MortgageRulesError extends Error {
+  issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    super(issues.map(issue => issue.message).join(". "));
+    this.name = "MortgageRulesError";
+    this.issues = issues;
+  }
+}
+
+// Smallest down payment allowed for a purchase price
+export function getMinimumDownPayment(propertyValue: number): number {
+  const rules = mortgageInsuranceRules;
+  if (propertyValue >= rules.insuredPriceLimit) {
+    return (propertyValue * rules.uninsuredMinimumPercent) / 100;
+  }
+
+  const firstTier = Math.min(propertyValue, rules.firstTierLimit);
+  const secondTier = Math.max(propertyValue - rules.firstTierLimit, 0);
+  return (firstTier * rules.firstTierMinimumPercent + secondTier * rules.secondTierMinimumPercent) / 100;
+}
+
+// Highest purchase price a down payment covers under the minimum down payment rules
+export function getMaximumPriceForDownPayment(downPayment: number): number {
+  const rules = mortgageInsuranceRules;
+  const uninsuredMaximum = (downPayment * 100) / rules.uninsuredMinimumPercent;
+  if (uninsuredMaximum >= rules.insuredPriceLimit) {
+    return uninsuredMaximum;
+  }
+
+  const firstTierMinimum = (rules.firstTierLimit * rules.firstTierMinimumPercent) / 100;
+  const insuredMaximum = downPayment <= firstTierMinimum
+    ? (downPayment * 100) / rules.firstTierMinimumPercent
+    : rules.firstTierLimit + ((downPayment - firstTierMinimum) * 100) / rules.secondTierMinimumPercent;
+
+  // Insured purchases must stay below the insured price limit
+  return Math.min(insuredMaximum, rules.insuredPriceLimit - 0.01);
+}
+
+function isHighRatio(data: MortgageCalculation): boolean {
+  return data.downPayment < (data.propertyValue * mortgageInsuranceRules.uninsuredMinimumPercent) / 100;
+}
+
+// Every rule the inputs break; an empty list means the mortgage can be priced
+export function validateMortgageInsuranceRules(data: MortgageCalculation): ValidationIssue[] {
+  const rules = mortgageInsuranceRules;
+  const issues: ValidationIssue[] = [];
+
+  // Nothing else can be checked once the down payment covers more than the whole price
+  if (data.downPayment > data.propertyValue) {
+    issues.push({ field: "downPayment", message: "Down payment cannot be more than the property value" });
+    return issues;
+  }
+
+  const minimumDownPayment = getMinimumDownPayment(data.propertyValue);
+  if (data.downPayment < minimumDownPayment) {
+    issues.push({
+      field: "downPayment",
+      message: data.propertyValue >= rules.insuredPriceLimit
+        ? `Homes priced at ${formatCurrency(rules.insuredPriceLimit)} or more require at least 20% down (${formatCurrency(minimumDownPayment)})`
+        : `Minimum down payment for this price is ${formatCurrency(minimumDownPayment)} (5% of the first ${formatCurrency(rules.firstTierLimit)} and 10% of the rest)`,
+    });
+  }
+
+  if (isHighRatio(data)) {
+    if (data.amortizationYears > rules.extendedMaxAmortization) {
+      issues.push({
+        field: "amortizationYears",
+        message: `Insured mortgages cannot be amortized over more than ${rules.extendedMaxAmortization} years`,
+      });
+    } else if (data.amortizationYears > rules.standardMaxAmortization && !data.isFirstTimeBuyer) {
+      issues.push({
+        field: "amortizationYears",
+        message: `Insured mortgages over ${rules.standardMaxAmortization} years are only available to first-time buyers`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+// Default insurance premium for a high-ratio mortgage. The premium is added to the loan;
+// Manitoba sales tax on it is not and must be paid in cash at closing.
+export function calculateMortgageInsurance(data: MortgageCalculation): MortgageInsurance {
+  const rules = mortgageInsuranceRules;
+  const mortgageAmount = data.propertyValue - data.downPayment;
+  const loanToValue = (mortgageAmount / data.propertyValue) * 100;
+
+  if (!isHighRatio(data)) {
+    return { required: false, insurer: data.mortgageInsurer, premiumRate: 0, premium: 0, provincialSalesTax: 0 };
+  }
+
+  const insurer = mortgageInsurers[data.mortgageInsurer];
+  const tier = insurer.premiumRates.find(item => loanToValue <= item.maxLoanToValue);
+  if (!tier) {
+    throw new MortgageRulesError([{ field: "downPayment", message: "Down payment is below the minimum for an insured mortgage" }]);
+  }
+
+  const surcharge = data.amortizationYears > rules.standardMaxAmortization ? insurer.extendedAmortizationSurcharge : 0;
+  const premiumRate = tier.rate + surcharge;
+  const premium = (mortgageAmount * premiumRate) / 100;
+
+  return {
+    required: true,
+    insurer: data.mortgageInsurer,
+    premiumRate: Math.round(premiumRate * 100) / 100,
+    premium: Math.round(premium * 100) / 100,
+    provincialSalesTax: Math.round(((premium * insurer.premiumSalesTaxRate) / 100) * 100) / 100,
+  };
+}
+
+// Amount borrowed: the purchase price less the down payment, plus any insurance premium added to the loan
+export function getInsuredLoanAmount(data: MortgageCalculation): number {
+  return data.propertyValue - data.downPayment + calculateMortgageInsurance(data).premium;
+}
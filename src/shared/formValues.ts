@@ -0,0 +1,40 @@
+import { ZodArray, ZodDefault, ZodNumber, ZodObject, ZodOptional } from "zod";
+import type { ZodTypeAny } from "zod";
+
+// Inputs as a form holds them while they are edited: number inputs keep the text as typed,
+// so an emptied field stays empty instead of turning into 0
+export type FormValues<T> = T extends number
+  ? number | string
+  : T extends (infer Item)[]
+    ? FormValues<Item>[]
+    : T extends object
+      ? { [K in keyof T]: FormValues<T[K]> }
+      : T;
+
+// The field's own type, without the default or optional wrapper
+export function unwrapSchema(schema: ZodTypeAny): ZodTypeAny {
+  if (schema instanceof ZodDefault) return unwrapSchema(schema.removeDefault());
+  if (schema instanceof ZodOptional) return unwrapSchema(schema.unwrap());
+  return schema;
+}
+
+// Form values in the types the schema expects. An empty optional number input is left unset; any other
+// empty one becomes null so the schema reports it as required instead of falling back to its default.
+export function parseFormValues(schema: ZodTypeAny, value: unknown): unknown {
+  const inner = unwrapSchema(schema);
+  if (inner instanceof ZodNumber && typeof value === "string") {
+    if (value.trim() === "") return schema instanceof ZodOptional ? undefined : null;
+    return Number(value);
+  }
+  if (inner instanceof ZodArray && Array.isArray(value)) {
+    return value.map(item => parseFormValues(inner.element, item));
+  }
+  if (inner instanceof ZodObject && typeof value === "object" && value !== null) {
+    const shape = inner.shape as Record<string, ZodTypeAny>;
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+      key,
+      key in shape ? parseFormValues(shape[key], item) : item,
+    ]));
+  }
+  return value;
+}
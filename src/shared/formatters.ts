@@ -4,3 +4,12 @@ export const formatCurrency = (amount: number) => {
         currency: 'CAD',
     }).format(amount);
 };
+
+// "2025-06-17" -> "June 17, 2025"; parsed as a local date so the day doesn't shift with the time zone
+export const formatDate = (isoDate: string) => {
+    return new Date(`${isoDate}T00:00:00`).toLocaleDateString('en-CA', {
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric',
+    });
+};
@@ -0,0 +1,23 @@
+import type { CompoundingFrequency } from "./types";
+
+// How many times per year interest compounds under each convention
+const compoundingPeriodsPerYear: Record<CompoundingFrequency, number> = {
+  "semi-annual": 2, // Required by the Interest Act for fixed-rate Canadian mortgages
+  monthly: 12, // Standard for variable-rate mortgages
+};
+
+// Convert a quoted nominal annual rate (percentage) into the effective annual rate (percentage)
+export function getEffectiveAnnualRate(annualRate: number, compounding: CompoundingFrequency): number {
+  const periods = compoundingPeriodsPerYear[compounding];
+  return (Math.pow(1 + annualRate / 100 / periods, periods) - 1) * 100;
+}
+
+// Convert a quoted nominal annual rate (percentage) into the rate applied each payment period (decimal)
+export function getPeriodicRate(
+  annualRate: number,
+  compounding: CompoundingFrequency,
+  paymentsPerYear: number = 12
+): number {
+  const periods = compoundingPeriodsPerYear[compounding];
+  return Math.pow(1 + annualRate / 100 / periods, periods / paymentsPerYear) - 1;
+}
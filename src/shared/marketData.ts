@@ -0,0 +1,99 @@
+import type { MarketData, MunicipalityProfile, SchoolDivision } from "./types";
+
+// Residential property in Manitoba is taxed on 45% of its assessed value
+const MANITOBA_RESIDENTIAL_PORTION = 45;
+
+// School division special levies (mills); divisions that span municipalities levy the same rate in each
+const schoolDivisions = {
+  winnipeg: { id: "winnipeg", name: "Winnipeg School Division", millRate: 14.86 },
+  pembinaTrails: { id: "pembina-trails", name: "Pembina Trails", millRate: 13.19 },
+  stJamesAssiniboia: { id: "st-james-assiniboia", name: "St. James-Assiniboia", millRate: 13.64 },
+  louisRiel: { id: "louis-riel", name: "Louis Riel", millRate: 14.55 },
+  riverEastTranscona: { id: "river-east-transcona", name: "River East Transcona", millRate: 14.96 },
+  sevenOaks: { id: "seven-oaks", name: "Seven Oaks", millRate: 15.85 },
+  franco: { id: "dsfm", name: "Division scolaire franco-manitobaine", millRate: 13.73 },
+  hanover: { id: "hanover", name: "Hanover", millRate: 12.53 },
+  brandon: { id: "brandon", name: "Brandon School Division", millRate: 16.31 },
+  lordSelkirk: { id: "lord-selkirk", name: "Lord Selkirk", millRate: 16.48 },
+} satisfies Record<string, SchoolDivision>;
+
+// Communities outside Winnipeg have no frontage levy; their rates are estimates from each
+// municipality's latest by-law and the local school division's special levy.
+function municipality(
+  name: string,
+  municipalMillRate: number,
+  divisions: SchoolDivision[],
+  insuranceMultiplier: number,
+  utilityEstimates: MunicipalityProfile["utilityEstimates"],
+  closingFees: MunicipalityProfile["closingFees"],
+  propertyTaxDueDate: string
+): MunicipalityProfile {
+  return {
+    name,
+    municipalMillRate,
+    schoolDivisions: divisions,
+    residentialPortion: MANITOBA_RESIDENTIAL_PORTION,
+    frontageLevyPerFoot: 0,
+    typicalLotFrontage: 0,
+    insuranceMultiplier,
+    utilityEstimates,
+    closingFees,
+    propertyTaxDueDate,
+  };
+}
+
+// Bundled Manitoba market data, used until the published dataset loads and whenever none has
+// been published. New figures are published through the admin API rather than edited here.
+export const defaultMarketData: MarketData = {
+  effectiveDate: "2025-06-17",
+  propertyTypeProfiles: {
+    "single-family": { insuranceRate: 0.3, utilityMultiplier: 1 },
+    condo: { insuranceRate: 0.1, utilityMultiplier: 0.6 }, // Condo corporation insures the building; unit policy only
+    townhouse: { insuranceRate: 0.25, utilityMultiplier: 0.85 }, // Shared walls mean less heat loss
+    "multi-family": { insuranceRate: 0.4, utilityMultiplier: 1.8 }, // Landlord policy; owner pays common utilities
+  },
+  currentInterestRates: {
+    fixed1Year: 5.24,
+    fixed5Year: 4.84,
+    variable: 5.95,
+  },
+  // Homeowners Affordability Tax Credit, which replaced the Education Property Tax Credit in 2024
+  educationPropertyTaxCreditMax: 1500,
+  municipalities: {
+    winnipeg: {
+      name: "Winnipeg",
+      municipalMillRate: 12.623,
+      schoolDivisions: [
+        schoolDivisions.winnipeg,
+        schoolDivisions.pembinaTrails,
+        schoolDivisions.stJamesAssiniboia,
+        schoolDivisions.louisRiel,
+        schoolDivisions.riverEastTranscona,
+        schoolDivisions.sevenOaks,
+        schoolDivisions.franco,
+      ],
+      residentialPortion: MANITOBA_RESIDENTIAL_PORTION,
+      frontageLevyPerFoot: 5.95,
+      typicalLotFrontage: 50,
+      insuranceMultiplier: 1,
+      // Monthly averages by heating type
+      utilityEstimates: { gas: 180, electric: 120, oil: 220, geothermal: 80 },
+      closingFees: { legalFees: 1500, homeInspection: 500, appraisal: 350 },
+      propertyTaxDueDate: "06-30",
+    },
+    steinbach: municipality("Steinbach", 11.98, [schoolDivisions.hanover], 0.95, { gas: 175, electric: 115, oil: 215, geothermal: 80 },
+      { legalFees: 1300, homeInspection: 450, appraisal: 350 }, "10-31"),
+    brandon: municipality("Brandon", 17.43, [schoolDivisions.brandon], 0.95, { gas: 185, electric: 125, oil: 225, geothermal: 85 },
+      { legalFees: 1300, homeInspection: 450, appraisal: 350 }, "06-30"),
+    selkirk: municipality("Selkirk", 21.89, [schoolDivisions.lordSelkirk], 1, { gas: 180, electric: 120, oil: 220, geothermal: 80 },
+      { legalFees: 1400, homeInspection: 450, appraisal: 350 }, "10-31"),
+    // Larger rural lots with well and septic, and longer response times for fire protection;
+    // inspections there include the well and septic system
+    "east-st-paul": municipality("East St. Paul", 9.88, [schoolDivisions.riverEastTranscona], 1.1, { gas: 195, electric: 135, oil: 235, geothermal: 90 },
+      { legalFees: 1500, homeInspection: 650, appraisal: 400 }, "10-31"),
+    "west-st-paul": municipality("West St. Paul", 10.36, [schoolDivisions.sevenOaks], 1.15, { gas: 195, electric: 135, oil: 235, geothermal: 90 },
+      { legalFees: 1500, homeInspection: 650, appraisal: 400 }, "10-31"),
+    headingley: municipality("Headingley", 7.69, [schoolDivisions.stJamesAssiniboia], 1.15, { gas: 195, electric: 135, oil: 235, geothermal: 90 },
+      { legalFees: 1500, homeInspection: 650, appraisal: 400 }, "10-31"),
+  },
+};
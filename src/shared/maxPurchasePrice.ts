@@ -0,0 +1,95 @@
+import type { MarketData, MortgageCalculation, MortgageResult } from "./types";
+import { calculateMortgage } from "./mortgageCalculator";
+import { getMaximumPriceForDownPayment, mortgageInsuranceRules } from "./cmhcInsurance";
+
+// The rule that stops the buyer from paying more
+export type AffordabilityConstraint = "gds" | "tds" | "down-payment" | "insured-amortization";
+
+export type MaxPurchasePrice = {
+  maxPropertyValue: number; // 0 when no purchase qualifies
+  mortgageAmount: number;
+  bindingConstraint: AffordabilityConstraint;
+  result: MortgageResult | null; // Full calculation at the maximum price
+};
+
+const PRICE_PRECISION = 100; // Search to the nearest $100
+
+// Highest price the down payment rules allow; insured amortization limits cap the price at 20% down
+function getRulesLimit(data: MortgageCalculation): { limit: number; constraint: AffordabilityConstraint } {
+  const rules = mortgageInsuranceRules;
+  const downPaymentLimit = getMaximumPriceForDownPayment(data.downPayment);
+  const insuredAmortizationAllowed = data.amortizationYears <= rules.standardMaxAmortization ||
+    (data.isFirstTimeBuyer && data.amortizationYears <= rules.extendedMaxAmortization);
+
+  if (!insuredAmortizationAllowed) {
+    const uninsuredLimit = (data.downPayment * 100) / rules.uninsuredMinimumPercent;
+    if (uninsuredLimit < downPaymentLimit) {
+      return { limit: uninsuredLimit, constraint: "insured-amortization" };
+    }
+  }
+  return { limit: downPaymentLimit, constraint: "down-payment" };
+}
+
+// Lenders qualify GDS/TDS at the stress test rate, so that is what limits the price
+function getRatioFailure(result: MortgageResult): AffordabilityConstraint | null {
+  const ratios = result.stressTest.debtServiceRatios;
+  if (!ratios.passesGds) return "gds";
+  if (!ratios.passesTds) return "tds";
+  return null;
+}
+
+function calculateAtPrice(data: MortgageCalculation, marketData: MarketData, propertyValue: number): MortgageResult {
+  // The assessment follows the candidate price rather than any assessed value entered for another home
+  return calculateMortgage({ ...data, propertyValue, assessedValue: undefined }, marketData);
+}
+
+// Find the highest purchase price the household qualifies for with its income, debts and down payment.
+// Ratios rise with the price, so a binary search between the down payment and the rules limit converges.
+export function findMaxPurchasePrice(data: MortgageCalculation, marketData: MarketData): MaxPurchasePrice {
+  const { limit, constraint } = getRulesLimit(data);
+
+  if (data.downPayment <= 0) {
+    return { maxPropertyValue: 0, mortgageAmount: 0, bindingConstraint: "down-payment", result: null };
+  }
+
+  const limitPrice = Math.max(Math.floor(limit / PRICE_PRECISION) * PRICE_PRECISION, data.downPayment);
+  const atLimit = calculateAtPrice(data, marketData, limitPrice);
+  if (getRatioFailure(atLimit) === null) {
+    return {
+      maxPropertyValue: limitPrice,
+      mortgageAmount: atLimit.principalAmount,
+      bindingConstraint: constraint,
+      result: atLimit,
+    };
+  }
+
+  // Even a purchase paid entirely in cash can fail when existing debts exceed the TDS limit
+  const atMinimum = calculateAtPrice(data, marketData, data.downPayment);
+  const minimumFailure = getRatioFailure(atMinimum);
+  if (minimumFailure !== null) {
+    return { maxPropertyValue: 0, mortgageAmount: 0, bindingConstraint: minimumFailure, result: null };
+  }
+
+  let low = data.downPayment; // Qualifies
+  let high = limit; // Fails a ratio
+  let bindingConstraint = getRatioFailure(atLimit) ?? constraint;
+  while (high - low > PRICE_PRECISION) {
+    const middle = (low + high) / 2;
+    const failure = getRatioFailure(calculateAtPrice(data, marketData, middle));
+    if (failure === null) {
+      low = middle;
+    } else {
+      high = middle;
+      bindingConstraint = failure;
+    }
+  }
+
+  const maxPropertyValue = Math.max(Math.floor(low / PRICE_PRECISION) * PRICE_PRECISION, data.downPayment);
+  const result = calculateAtPrice(data, marketData, maxPropertyValue);
+  return {
+    maxPropertyValue,
+    mortgageAmount: result.principalAmount,
+    bindingConstraint,
+    result,
+  };
+}
@@ -1,99 +1,251 @@
-import type { MortgageCalculation, MortgageResult, WinnipegPropertyData } from "./types";
-
-// Winnipeg-specific property data
-export const winnipegData: WinnipegPropertyData = {
-  averagePropertyTaxRate: 2.35, // Winnipeg's average property tax rate as percentage
-  averageInsuranceRate: 0.3, // Average home insurance as percentage of property value annually
-  currentInterestRates: {
-    fixed1Year: 5.24,
-    fixed5Year: 4.84,
-    variable: 5.95,
-  },
-  utilityEstimates: {
-    gas: 180, // Monthly average for gas heating in Winnipeg
-    electric: 120, // Monthly average for electric heating
-    oil: 220, // Monthly average for oil heating
-    geothermal: 80, // Monthly average for geothermal
-  },
-};
+import type { DebtServiceRatios, MarketData, MortgageCalculation, MortgageInsurance, MortgageResult, PropertyTaxBreakdown } from "./types";
+import { MortgageCalculationSchema } from "./types";
+import { formatValidationIssues, inputErrorMap } from "./validation";
+import type { ValidationIssue } from "./validation";
+import { getEffectiveAnnualRate, getPeriodicRate } from "./interestRates";
+import { calculatePeriodicPayment } from "./paymentMath";
+import { formatCurrency } from "./formatters";
+import {
+  calculateMortgageInsurance,
+  mortgageInsurers,
+  mortgageInsuranceRules,
+  MortgageRulesError,
+  validateMortgageInsuranceRules,
+} from "./cmhcInsurance";
+import {
+  calculateDebtServiceRatios,
+  getMonthlyDebtPayments,
+  getQualifyingAnnualIncome,
+  getQualifyingHousingCost,
+  getRentalIncomeCounted,
+} from "./affordability";
+import { evaluateStressTest } from "./stressTest";
+import { estimateClosingCosts } from "./closingCosts";
+import { comparePaymentFrequencies, generateAmortizationSchedule } from "./amortization";
+import { summarizePrepayments } from "./prepayment";
+import { evaluateRenewal } from "./renewal";
+import { calculatePropertyTax } from "./propertyTax";
+import { analyzeVariableRate, isVariableRate, variableRateRules } from "./variableRate";
 
-// Calculate CMHC insurance premium based on down payment percentage
-function calculateCMHCInsurance(propertyValue: number, downPayment: number): number {
-  const downPaymentPercent = (downPayment / propertyValue) * 100;
-  
-  if (downPaymentPercent >= 20) return 0;
-  
-  // CMHC premium rates based on down payment percentage
-  let premiumRate = 0;
-  if (downPaymentPercent >= 15) premiumRate = 2.8;
-  else if (downPaymentPercent >= 10) premiumRate = 3.1;
-  else if (downPaymentPercent >= 5) premiumRate = 4.0;
-  else premiumRate = 4.5; // Less than 5% down
-  
-  const mortgageAmount = propertyValue - downPayment;
-  return (mortgageAmount * premiumRate) / 100;
+export type MortgageCalculationValidation =
+  | { success: true; data: MortgageCalculation }
+  | { success: false; issues: ValidationIssue[] };
+
+// Check raw inputs against the schema's field limits, then against the mortgage rules that span
+// several fields (down payment vs price, insured amortization)
+export function validateMortgageCalculation(value: unknown): MortgageCalculationValidation {
+  const parsed = MortgageCalculationSchema.safeParse(value, { errorMap: inputErrorMap });
+  if (!parsed.success) {
+    return { success: false, issues: formatValidationIssues(parsed.error) };
+  }
+
+  const ruleIssues = validateMortgageInsuranceRules(parsed.data);
+  return ruleIssues.length > 0
+    ? { success: false, issues: ruleIssues }
+    : { success: true, data: parsed.data };
 }
 
-// Calculate affordability rating
-function getAffordabilityRating(totalMonthlyCost: number, assumedIncome: number): "excellent" | "good" | "fair" | "poor" {
-  const ratio = (totalMonthlyCost / assumedIncome) * 100;
-  
-  if (ratio <= 28) return "excellent";
-  if (ratio <= 32) return "good";
-  if (ratio <= 39) return "fair";
+// Calculate affordability rating from GDS/TDS: comfortable lender targets first, then the CMHC maximums
+function getAffordabilityRating(ratios: DebtServiceRatios): "excellent" | "good" | "fair" | "poor" {
+  if (ratios.gds <= 28 && ratios.tds <= 36) return "excellent";
+  if (ratios.gds <= 32 && ratios.tds <= 40) return "good";
+  if (ratios.passesGds && ratios.passesTds) return "fair";
   return "poor";
 }
 
-export function calculateMortgage(data: MortgageCalculation): MortgageResult {
+export type MonthlyCosts = {
+  principalAmount: number;
+  mortgageInsurance: MortgageInsurance;
+  totalLoanAmount: number; // Principal plus the insurance premium
+  monthlyPayment: number;
+  propertyTax: PropertyTaxBreakdown;
+  monthlyPropertyTax: number;
+  monthlyInsurance: number;
+  monthlyUtilities: number;
+  monthlyCondoFees: number;
+  totalMonthlyCost: number;
+  debtServiceRatios: DebtServiceRatios;
+  affordabilityRating: MortgageResult["affordabilityRating"];
+};
+
+// The monthly payment, local carrying costs and affordability, without building any amortization
+// schedules; unrounded. Throws MortgageRulesError when the inputs break mortgage insurance rules.
+export function calculateMonthlyCosts(data: MortgageCalculation, marketData: MarketData): MonthlyCosts {
+  const ruleIssues = validateMortgageInsuranceRules(data);
+  if (ruleIssues.length > 0) {
+    throw new MortgageRulesError(ruleIssues);
+  }
+
   const principalAmount = data.propertyValue - data.downPayment;
-  const cmhcInsurance = calculateCMHCInsurance(data.propertyValue, data.downPayment);
-  const totalLoanAmount = principalAmount + cmhcInsurance;
-  
-  // Calculate monthly payment using standard mortgage formula
-  const monthlyRate = data.interestRate / 100 / 12;
-  const numPayments = data.amortizationYears * 12;
-  
-  const monthlyPayment = totalLoanAmount * 
-    (monthlyRate * Math.pow(1 + monthlyRate, numPayments)) / 
-    (Math.pow(1 + monthlyRate, numPayments) - 1);
-  
-  const totalInterest = (monthlyPayment * numPayments) - totalLoanAmount;
-  
-  // Winnipeg-specific costs
-  const monthlyPropertyTax = (data.propertyValue * winnipegData.averagePropertyTaxRate / 100) / 12;
-  const monthlyInsurance = (data.propertyValue * winnipegData.averageInsuranceRate / 100) / 12;
-  const monthlyUtilities = winnipegData.utilityEstimates[data.heatingType];
-  
-  const totalMonthlyCost = monthlyPayment + monthlyPropertyTax + monthlyInsurance + monthlyUtilities;
+  const mortgageInsurance = calculateMortgageInsurance(data);
+  const totalLoanAmount = principalAmount + mortgageInsurance.premium;
+
+  // Calculate monthly payment using standard mortgage formula, converting the quoted
+  // rate according to its compounding convention (semi-annual for Canadian fixed rates)
+  const monthlyRate = getPeriodicRate(data.interestRate, data.compounding, 12);
+  const monthlyPayment = calculatePeriodicPayment(totalLoanAmount, monthlyRate, data.amortizationYears * 12);
+
+  // Local costs from the municipality's profile in the market dataset
+  const municipality = marketData.municipalities[data.municipality];
+  const propertyTax = calculatePropertyTax(data, municipality, marketData.educationPropertyTaxCreditMax);
+  const monthlyPropertyTax = propertyTax.annualTax / 12;
+  const propertyProfile = marketData.propertyTypeProfiles[data.propertyType];
+  const monthlyInsurance = (data.propertyValue * propertyProfile.insuranceRate * municipality.insuranceMultiplier / 100) / 12;
+  const monthlyUtilities = municipality.utilityEstimates[data.heatingType] * propertyProfile.utilityMultiplier;
+  const monthlyCondoFees = data.monthlyCondoFees;
+
+  const totalMonthlyCost = monthlyPayment + monthlyPropertyTax + monthlyInsurance + monthlyUtilities + monthlyCondoFees;
+
+  // Affordability from the household's actual income and debts (utility estimate stands in for heating)
+  const debtServiceRatios = calculateDebtServiceRatios(
+    getQualifyingHousingCost(monthlyPayment, monthlyPropertyTax, monthlyUtilities, monthlyCondoFees),
+    getMonthlyDebtPayments(data),
+    getQualifyingAnnualIncome(data)
+  );
+
+  return {
+    principalAmount,
+    mortgageInsurance,
+    totalLoanAmount,
+    monthlyPayment,
+    propertyTax,
+    monthlyPropertyTax,
+    monthlyInsurance,
+    monthlyUtilities,
+    monthlyCondoFees,
+    totalMonthlyCost,
+    debtServiceRatios,
+    affordabilityRating: getAffordabilityRating(debtServiceRatios),
+  };
+}
+
+// Throws MortgageRulesError when the inputs break mortgage insurance rules. Market data
+// (municipal tax, insurance and utility profiles, current interest rates) comes from the published dataset.
+export function calculateMortgage(data: MortgageCalculation, marketData: MarketData): MortgageResult {
+  const {
+    principalAmount,
+    mortgageInsurance,
+    totalLoanAmount,
+    monthlyPayment,
+    propertyTax,
+    monthlyPropertyTax,
+    monthlyInsurance,
+    monthlyUtilities,
+    monthlyCondoFees,
+    totalMonthlyCost,
+    debtServiceRatios,
+    affordabilityRating,
+  } = calculateMonthlyCosts(data, marketData);
+  const cmhcInsurance = mortgageInsurance.premium;
+  const effectiveAnnualRate = getEffectiveAnnualRate(data.interestRate, data.compounding);
+
+  // Compare every payment frequency; total interest and payoff date reflect the one chosen
+  const frequencyComparison = comparePaymentFrequencies(data);
+  const selectedFrequency = frequencyComparison.find(item => item.frequency === data.paymentFrequency) ?? frequencyComparison[0];
+  const totalInterest = selectedFrequency.totalInterest;
+
   const downPaymentPercent = (data.downPayment / data.propertyValue) * 100;
   
   // Generate warnings
   const warnings: string[] = [];
-  if (downPaymentPercent < 20) {
-    warnings.push("Down payment less than 20% requires CMHC insurance");
+  if (mortgageInsurance.required) {
+    warnings.push("Down payment less than 20% requires mortgage default insurance");
   }
-  if (downPaymentPercent < 5) {
-    warnings.push("Down payment less than 5% may not be accepted by all lenders");
+  if (mortgageInsurance.required && data.amortizationYears > mortgageInsuranceRules.standardMaxAmortization) {
+    warnings.push(
+      `Insured amortizations over ${mortgageInsuranceRules.standardMaxAmortization} years add a ${mortgageInsurers[data.mortgageInsurer].extendedAmortizationSurcharge.toFixed(2)}% premium surcharge`
+    );
   }
-  if (data.interestRate > winnipegData.currentInterestRates.fixed5Year + 1) {
+  const marketRate = isVariableRate(data) ? marketData.currentInterestRates.variable : marketData.currentInterestRates.fixed5Year;
+  if (data.interestRate > marketRate + 1) {
     warnings.push("Interest rate appears higher than current market rates");
   }
+  if (data.propertyType === "condo" && data.monthlyCondoFees === 0) {
+    warnings.push("No condo fees entered; most Winnipeg condos charge monthly fees that count toward affordability");
+  }
+  if (data.propertyType === "multi-family" && data.monthlyRentalIncome === 0) {
+    warnings.push("No rental income entered for a multi-family property; rent from other units can help you qualify");
+  }
+
+  // Prepayment privileges: warn when the lender's yearly cap cut any lump-sum or one-time prepayment
+  const prepaymentSummary = summarizePrepayments(data);
+  if (prepaymentSummary.prepaymentReducedByCap > 0) {
+    warnings.push(
+      `Prepayments are limited to ${data.prepaymentCapPercent}% of the original principal (${formatCurrency(prepaymentSummary.annualPrepaymentCap)}) a year; ` +
+      `${formatCurrency(prepaymentSummary.totalPrepaid)} was applied and ${formatCurrency(prepaymentSummary.prepaymentReducedByCap)} of the requested prepayments was left out`
+    );
+  }
+
+  // One-time prepayments dated outside the schedule: before it starts they are applied with the first
+  // payment, and after the last payment they are never applied
+  const startDate = new Date();
+  const schedule = generateAmortizationSchedule(data, startDate);
+  const startIsoDate = startDate.toISOString().slice(0, 10);
+  const lastPaymentDate = schedule.payments[schedule.payments.length - 1]?.date ?? startIsoDate;
+  for (const prepayment of data.oneTimePrepayments) {
+    if (prepayment.date < startIsoDate) {
+      warnings.push(`The ${formatCurrency(prepayment.amount)} prepayment dated ${prepayment.date} is before the mortgage starts; it is applied with the first payment`);
+    } else if (prepayment.date > lastPaymentDate) {
+      warnings.push(`The ${formatCurrency(prepayment.amount)} prepayment dated ${prepayment.date} is after the last payment on ${lastPaymentDate} and is not applied`);
+    }
+  }
+
+  // OSFI B-20 stress test at the minimum qualifying rate
+  const stressTest = evaluateStressTest(data, totalLoanAmount, monthlyPropertyTax, monthlyUtilities);
+  if (!stressTest.passes) {
+    warnings.push(`Does not pass the mortgage stress test at the ${stressTest.qualifyingRate}% qualifying rate`);
+    warnings.push(...stressTest.debtServiceRatios.explanations.map(explanation => `At the qualifying rate, ${explanation}`));
+  }
   
-  // Assume household income for affordability (this could be an input in a more advanced version)
-  const assumedMonthlyIncome = totalMonthlyCost / 0.32; // Assume they're at 32% ratio
-  const affordabilityRating = getAffordabilityRating(totalMonthlyCost, assumedMonthlyIncome);
-  
+  const closingCosts = estimateClosingCosts(
+    data,
+    marketData.municipalities[data.municipality],
+    monthlyPropertyTax * 12,
+    mortgageInsurance.provincialSalesTax
+  );
+  const renewal = evaluateRenewal(data, marketData.currentInterestRates);
+
+  // Variable rates: trigger events along the projected prime-rate path
+  const variableRate = analyzeVariableRate(data, schedule);
+  if (variableRate?.triggerRateDate) {
+    warnings.push(`Projected rates reach the ${variableRate.triggerRate}% trigger rate on ${variableRate.triggerRateDate}; from then the fixed payment no longer covers the interest`);
+  }
+  if (variableRate?.negativeAmortizationDate) {
+    warnings.push(`Negative amortization starts on ${variableRate.negativeAmortizationDate}: unpaid interest is added to the balance`);
+  }
+  if (variableRate?.triggerPointDate) {
+    warnings.push(
+      `The balance passes the trigger point (${variableRateRules.triggerPointPercent}% of the original loan) on ${variableRate.triggerPointDate}; the lender would raise the payment`
+    );
+  }
+
   const result: MortgageResult = {
     monthlyPayment: Math.round(monthlyPayment * 100) / 100,
+    municipality: data.municipality,
+    paymentFrequency: data.paymentFrequency,
+    regularPayment: selectedFrequency.payment,
+    payoffDate: selectedFrequency.payoffDate,
     principalAmount: Math.round(principalAmount * 100) / 100,
     totalInterest: Math.round(totalInterest * 100) / 100,
     monthlyPropertyTax: Math.round(monthlyPropertyTax * 100) / 100,
+    propertyTax,
     monthlyInsurance: Math.round(monthlyInsurance * 100) / 100,
     monthlyUtilities: Math.round(monthlyUtilities * 100) / 100,
+    monthlyCondoFees: Math.round(monthlyCondoFees * 100) / 100,
+    monthlyRentalIncomeCounted: Math.round(getRentalIncomeCounted(data) * 100) / 100,
     totalMonthlyCost: Math.round(totalMonthlyCost * 100) / 100,
     downPaymentPercent: Math.round(downPaymentPercent * 100) / 100,
     cmhcInsurance: Math.round(cmhcInsurance * 100) / 100,
+    mortgageInsurance,
+    effectiveAnnualRate: Math.round(effectiveAnnualRate * 1000) / 1000,
     affordabilityRating,
+    debtServiceRatios,
+    stressTest,
+    closingCosts,
+    frequencyComparison,
+    prepaymentSummary,
+    renewal,
+    variableRate,
     warnings,
   };
   
@@ -0,0 +1,58 @@
+import type { CompoundingFrequency, PaymentFrequency } from "./types";
+import { getPeriodicRate } from "./interestRates";
+import { calculatePeriodicPayment } from "./paymentMath";
+
+// Payment frequencies offered by Canadian lenders. Accelerated options split the monthly payment
+// (in half for bi-weekly, in quarters for weekly), which adds the equivalent of one extra monthly
+// payment per year and shortens the amortization.
+export const paymentFrequencies: Record<PaymentFrequency, { label: string; paymentsPerYear: number; monthlyPaymentDivisor?: number }> = {
+  monthly: { label: "Monthly", paymentsPerYear: 12 },
+  "semi-monthly": { label: "Semi-monthly", paymentsPerYear: 24 },
+  "bi-weekly": { label: "Bi-weekly", paymentsPerYear: 26 },
+  "accelerated-bi-weekly": { label: "Accelerated bi-weekly", paymentsPerYear: 26, monthlyPaymentDivisor: 2 },
+  weekly: { label: "Weekly", paymentsPerYear: 52 },
+  "accelerated-weekly": { label: "Accelerated weekly", paymentsPerYear: 52, monthlyPaymentDivisor: 4 },
+};
+
+// Regular payment for a loan at the given frequency
+export function getRegularPayment(
+  loanAmount: number,
+  annualRate: number,
+  compounding: CompoundingFrequency,
+  amortizationYears: number,
+  frequency: PaymentFrequency
+): number {
+  const { paymentsPerYear, monthlyPaymentDivisor } = paymentFrequencies[frequency];
+
+  if (monthlyPaymentDivisor) {
+    const monthlyRate = getPeriodicRate(annualRate, compounding, 12);
+    return calculatePeriodicPayment(loanAmount, monthlyRate, amortizationYears * 12) / monthlyPaymentDivisor;
+  }
+
+  const periodicRate = getPeriodicRate(annualRate, compounding, paymentsPerYear);
+  return calculatePeriodicPayment(loanAmount, periodicRate, amortizationYears * paymentsPerYear);
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date.getTime());
+  result.setUTCDate(result.getUTCDate() + days);
+  return result;
+}
+
+// Add whole months to a date, clamping to the last day of shorter months (e.g. Jan 31 -> Feb 28)
+export function addMonths(date: Date, months: number): Date {
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+  return target;
+}
+
+// Due date of the nth payment after startDate
+export function getPaymentDate(startDate: Date, paymentNumber: number, frequency: PaymentFrequency): Date {
+  switch (paymentFrequencies[frequency].paymentsPerYear) {
+    case 52: return addDays(startDate, paymentNumber * 7);
+    case 26: return addDays(startDate, paymentNumber * 14);
+    case 24: return addDays(addMonths(startDate, Math.floor(paymentNumber / 2)), paymentNumber % 2 === 1 ? 15 : 0);
+    default: return addMonths(startDate, paymentNumber);
+  }
+}
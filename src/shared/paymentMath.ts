@@ -0,0 +1,20 @@
+// Round a dollar amount to the nearest cent
+export function roundToCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// Level payment that retires the loan over numPayments periods at the given periodic rate
+export function calculatePeriodicPayment(loanAmount: number, periodicRate: number, numPayments: number): number {
+  if (periodicRate === 0) return loanAmount / numPayments;
+
+  return loanAmount *
+    (periodicRate * Math.pow(1 + periodicRate, numPayments)) /
+    (Math.pow(1 + periodicRate, numPayments) - 1);
+}
+
+// Largest loan a level payment can retire over numPayments periods (inverse of calculatePeriodicPayment)
+export function calculateLoanAmountForPayment(payment: number, periodicRate: number, numPayments: number): number {
+  if (periodicRate === 0) return payment * numPayments;
+
+  return payment * (1 - Math.pow(1 + periodicRate, -numPayments)) / periodicRate;
+}
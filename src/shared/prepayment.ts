@@ -0,0 +1,45 @@
+import type { AmortizationPayment, MortgageCalculation, PrepaymentSummary } from "./types";
+import { generateAmortizationSchedule, getAnnualPrepaymentCap } from "./amortization";
+import { paymentFrequencies } from "./paymentFrequency";
+import { roundToCents } from "./paymentMath";
+import { getInsuredLoanAmount } from "./cmhcInsurance";
+
+// The same mortgage with every prepayment privilege left unused
+export function withoutPrepayments(data: MortgageCalculation): MortgageCalculation {
+  return {
+    ...data,
+    annualLumpSumPrepayment: 0,
+    paymentIncreasePercent: 0,
+    oneTimePrepayments: [],
+  };
+}
+
+function sumInterest(payments: AmortizationPayment[]): number {
+  return roundToCents(payments.reduce((sum, payment) => sum + payment.interest, 0));
+}
+
+// Compare the schedule with prepayments against the regular schedule to find interest and time saved
+export function summarizePrepayments(data: MortgageCalculation, startDate: Date = new Date()): PrepaymentSummary {
+  const { paymentsPerYear } = paymentFrequencies[data.paymentFrequency];
+  const schedule = generateAmortizationSchedule(data, startDate);
+  const withPrepayments = schedule.payments;
+  const withoutPrepaymentsSchedule = generateAmortizationSchedule(withoutPrepayments(data), startDate).payments;
+
+  const interestWithPrepayments = sumInterest(withPrepayments);
+  const interestWithoutPrepayments = sumInterest(withoutPrepaymentsSchedule);
+  const yearsWithPrepayments = Math.round((withPrepayments.length / paymentsPerYear) * 10) / 10;
+  const yearsWithoutPrepayments = Math.round((withoutPrepaymentsSchedule.length / paymentsPerYear) * 10) / 10;
+  const loanAmount = roundToCents(getInsuredLoanAmount(data));
+
+  return {
+    totalPrepaid: roundToCents(withPrepayments.reduce((sum, payment) => sum + payment.prepayment, 0)),
+    annualPrepaymentCap: getAnnualPrepaymentCap(loanAmount, data.prepaymentCapPercent),
+    prepaymentReducedByCap: schedule.prepaymentReducedByCap,
+    interestWithoutPrepayments,
+    payoffDateWithoutPrepayments: withoutPrepaymentsSchedule[withoutPrepaymentsSchedule.length - 1]?.date ?? "",
+    yearsWithoutPrepayments,
+    yearsWithPrepayments,
+    interestSaved: roundToCents(interestWithoutPrepayments - interestWithPrepayments),
+    yearsSaved: Math.round((yearsWithoutPrepayments - yearsWithPrepayments) * 10) / 10,
+  };
+}
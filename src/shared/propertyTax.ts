@@ -0,0 +1,43 @@
+import type { MortgageCalculation, MunicipalityProfile, PropertyTaxBreakdown } from "./types";
+import { MortgageRulesError } from "./cmhcInsurance";
+import { roundToCents } from "./paymentMath";
+
+// Itemized annual property tax: municipal and school division mill rates on the taxable (portioned)
+// share of the assessed value, plus the frontage levy where the municipality charges one, less the
+// provincial education property tax credit (which can't exceed the school taxes it offsets)
+export function calculatePropertyTax(
+  data: MortgageCalculation,
+  profile: MunicipalityProfile,
+  educationPropertyTaxCreditMax: number
+): PropertyTaxBreakdown {
+  const schoolDivision = data.schoolDivision === undefined
+    ? profile.schoolDivisions[0]
+    : profile.schoolDivisions.find(division => division.id === data.schoolDivision);
+  if (!schoolDivision) {
+    throw new MortgageRulesError([{ field: "schoolDivision", message: `${data.schoolDivision} is not a school division in ${profile.name}` }]);
+  }
+
+  const assessedValue = data.assessedValue ?? data.propertyValue;
+  const lotFrontage = profile.frontageLevyPerFoot > 0 ? data.lotFrontage ?? profile.typicalLotFrontage : 0;
+
+  const portionedAssessment = (assessedValue * profile.residentialPortion) / 100;
+  const municipalTax = (portionedAssessment * profile.municipalMillRate) / 1000;
+  const educationTax = (portionedAssessment * schoolDivision.millRate) / 1000;
+  const frontageLevy = profile.frontageLevyPerFoot * lotFrontage;
+  const educationPropertyTaxCredit = Math.min(educationPropertyTaxCreditMax, educationTax);
+
+  return {
+    assessedValue: roundToCents(assessedValue),
+    residentialPortion: profile.residentialPortion,
+    portionedAssessment: roundToCents(portionedAssessment),
+    municipalMillRate: profile.municipalMillRate,
+    municipalTax: roundToCents(municipalTax),
+    schoolDivision: schoolDivision.name,
+    educationMillRate: schoolDivision.millRate,
+    educationTax: roundToCents(educationTax),
+    lotFrontage,
+    frontageLevy: roundToCents(frontageLevy),
+    educationPropertyTaxCredit: roundToCents(educationPropertyTaxCredit),
+    annualTax: roundToCents(municipalTax + educationTax + frontageLevy - educationPropertyTaxCredit),
+  };
+}
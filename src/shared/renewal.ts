@@ -0,0 +1,64 @@
+import type { CompoundingFrequency, MarketData, MortgageCalculation, RenewalAnalysis, RenewalScenario } from "./types";
+import { generateAmortizationSchedule } from "./amortization";
+import { getInsuredLoanAmount } from "./cmhcInsurance";
+import { getRegularPayment } from "./paymentFrequency";
+import { roundToCents } from "./paymentMath";
+
+// Rate shocks (percentage points) applied to the contract rate at renewal
+export const renewalRateShocks = [-2, -1, 1, 2];
+
+// Balance owing at the end of the term, and the payment if that balance is repriced at
+// current market, shocked or user-supplied rates over the remaining amortization
+export function evaluateRenewal(
+  data: MortgageCalculation,
+  marketRates: MarketData["currentInterestRates"],
+  startDate: Date = new Date()
+): RenewalAnalysis {
+  const termYears = Math.min(data.termYears, data.amortizationYears);
+  const { payments } = generateAmortizationSchedule(data, startDate);
+  const termPayments = payments.filter(payment => payment.year <= termYears);
+  const lastTermPayment = termPayments[termPayments.length - 1];
+
+  const balanceAtRenewal = termPayments.length < payments.length ? lastTermPayment.balance : 0;
+  const remainingAmortizationYears = data.amortizationYears - termYears;
+  // Renewal payments are the regular payment for the new rate, so compare against the regular payment at the
+  // contract rate rather than the schedule's, which includes any voluntary payment increase
+  const currentPayment = roundToCents(getRegularPayment(
+    roundToCents(getInsuredLoanAmount(data)), data.interestRate, data.compounding, data.amortizationYears, data.paymentFrequency
+  ));
+
+  const rates: { label: string; rate: number; compounding: CompoundingFrequency }[] = [
+    { label: "Same rate", rate: data.interestRate, compounding: data.compounding },
+    ...renewalRateShocks.map(shock => ({
+      label: `${shock > 0 ? "+" : ""}${shock}% shock`,
+      rate: Math.max(data.interestRate + shock, 0),
+      compounding: data.compounding,
+    })),
+    { label: "Current 1-year fixed", rate: marketRates.fixed1Year, compounding: "semi-annual" },
+    { label: "Current 5-year fixed", rate: marketRates.fixed5Year, compounding: "semi-annual" },
+    { label: "Current variable", rate: marketRates.variable, compounding: "monthly" },
+    ...data.renewalRates.map(rate => ({ label: "Your rate", rate, compounding: data.compounding })),
+  ];
+
+  const scenarios: RenewalScenario[] = balanceAtRenewal > 0 && remainingAmortizationYears > 0
+    ? rates.map(({ label, rate, compounding }) => {
+      const payment = roundToCents(
+        getRegularPayment(balanceAtRenewal, rate, compounding, remainingAmortizationYears, data.paymentFrequency)
+      );
+      return {
+        label,
+        rate: Math.round(rate * 100) / 100,
+        payment,
+        paymentChange: roundToCents(payment - currentPayment),
+      };
+    })
+    : [];
+
+  return {
+    termYears,
+    renewalDate: lastTermPayment?.date ?? "",
+    balanceAtRenewal,
+    remainingAmortizationYears,
+    scenarios,
+  };
+}
@@ -0,0 +1,72 @@
+import type { MortgageCalculation, MortgageResult, RentVsBuyAnalysis, RentVsBuyAssumptions, RentVsBuyYear } from "./types";
+import { generateAmortizationSchedule } from "./amortization";
+import { roundToCents } from "./paymentMath";
+
+// Project owning against renting year by year from a calculated mortgage. The renter invests the cash
+// the buyer would have spent up front; each year, whoever spends less invests the difference. Portfolios
+// compound annually with contributions at year end.
+export function analyzeRentVsBuy(
+  data: MortgageCalculation,
+  result: MortgageResult,
+  assumptions: RentVsBuyAssumptions,
+  startDate: Date = new Date()
+): RentVsBuyAnalysis {
+  const { yearlySummaries } = generateAmortizationSchedule(data, startDate);
+  const appreciation = 1 + assumptions.homeAppreciationPercent / 100;
+  const investmentReturn = 1 + assumptions.investmentReturnPercent / 100;
+
+  const initialInvestment = data.downPayment + result.closingCosts.totalClosingCosts;
+  let ownerPortfolio = 0;
+  let renterPortfolio = initialInvestment;
+  let homeValue = data.propertyValue;
+  let totalOwnerCost = result.closingCosts.totalClosingCosts;
+  let totalRentPaid = 0;
+  let breakEvenYear: number | null = null;
+
+  const years: RentVsBuyYear[] = [];
+  for (let year = 1; year <= assumptions.years; year++) {
+    const growth = Math.pow(appreciation, year - 1);
+    const mortgageYear = yearlySummaries.find(summary => summary.year === year);
+
+    // Tax and insurance follow the home's value; utilities and condo fees stay at today's estimate
+    const interest = mortgageYear?.totalInterest ?? 0;
+    const mortgagePaid = mortgageYear?.totalPaid ?? 0; // Includes prepayments
+    const carryingCosts = (result.monthlyPropertyTax + result.monthlyInsurance) * 12 * growth +
+      (result.monthlyUtilities + result.monthlyCondoFees) * 12 +
+      (homeValue * assumptions.maintenancePercent) / 100;
+    const rentPaid = assumptions.monthlyRent * 12 * Math.pow(1 + assumptions.rentIncreasePercent / 100, year - 1);
+
+    const ownerOutlay = mortgagePaid + carryingCosts;
+    ownerPortfolio = ownerPortfolio * investmentReturn + Math.max(rentPaid - ownerOutlay, 0);
+    renterPortfolio = renterPortfolio * investmentReturn + Math.max(ownerOutlay - rentPaid, 0);
+
+    homeValue *= appreciation;
+    const mortgageBalance = mortgageYear?.endingBalance ?? 0;
+    const ownerCost = interest + carryingCosts;
+    totalOwnerCost += ownerCost;
+    totalRentPaid += rentPaid;
+
+    const ownerNetWorth = homeValue * (1 - assumptions.sellingCostPercent / 100) - mortgageBalance + ownerPortfolio;
+    if (breakEvenYear === null && ownerNetWorth >= renterPortfolio) {
+      breakEvenYear = year;
+    }
+
+    years.push({
+      year,
+      homeValue: roundToCents(homeValue),
+      mortgageBalance: roundToCents(mortgageBalance),
+      ownerCost: roundToCents(ownerCost),
+      rentPaid: roundToCents(rentPaid),
+      ownerNetWorth: roundToCents(ownerNetWorth),
+      renterNetWorth: roundToCents(renterPortfolio),
+    });
+  }
+
+  return {
+    initialInvestment: roundToCents(initialInvestment),
+    years,
+    breakEvenYear,
+    totalOwnerCost: roundToCents(totalOwnerCost),
+    totalRentPaid: roundToCents(totalRentPaid),
+  };
+}
@@ -0,0 +1,64 @@
+import type { MarketData, MortgageCalculation, MortgageResult } from "./types";
+import { calculateMortgage } from "./mortgageCalculator";
+import { roundToCents } from "./paymentMath";
+
+export type ComparisonValue = number | string | boolean | null; // null where the result has no value for the field
+
+export type ComparisonRow = {
+  field: string; // Dot-separated path into MortgageResult, e.g. "closingCosts.landTransferTax"
+  values: ComparisonValue[];
+  differs: boolean;
+};
+
+export type ScenarioComparison = {
+  results: MortgageResult[];
+  lifetimeCosts: number[];
+  cheapestIndex: number;
+  rows: ComparisonRow[];
+};
+
+// Everything the borrower pays beyond the purchase price: interest, insurance premium and closing costs
+export function getLifetimeCost(result: MortgageResult): number {
+  return roundToCents(result.totalInterest + result.cmhcInsurance + result.closingCosts.totalClosingCosts);
+}
+
+// Flatten a result into dot-separated scalar fields, keeping nulls; lists (warnings, comparisons, scenarios) are skipped
+export function flattenResult(value: object, prefix = ""): Record<string, ComparisonValue> {
+  const fields: Record<string, ComparisonValue> = {};
+
+  for (const [key, item] of Object.entries(value)) {
+    const field = prefix ? `${prefix}.${key}` : key;
+    if (Array.isArray(item)) continue;
+    if (item !== null && typeof item === "object") {
+      Object.assign(fields, flattenResult(item, field));
+    } else if (item === null || typeof item === "number" || typeof item === "string" || typeof item === "boolean") {
+      fields[field] = item;
+    }
+  }
+
+  return fields;
+}
+
+// Calculate each scenario and line up every result field side by side
+export function compareScenarios(scenarios: MortgageCalculation[], marketData: MarketData): ScenarioComparison {
+  const results = scenarios.map(scenario => calculateMortgage(scenario, marketData));
+  const flattened = results.map(result => flattenResult(result));
+  const lifetimeCosts = results.map(getLifetimeCost);
+
+  // Rows cover every field any result has (a fixed-rate result has no variableRate.* fields); a field that
+  // is null in one result but an object in another is shown through the object's fields only
+  const fields = [...new Set(flattened.flatMap(Object.keys))];
+  const rows = fields
+    .filter(field => !fields.some(other => other.startsWith(`${field}.`)))
+    .map(field => {
+      const values = flattened.map(result => result[field] ?? null);
+      return { field, values, differs: values.some(value => value !== values[0]) };
+    });
+
+  return {
+    results,
+    lifetimeCosts,
+    cheapestIndex: lifetimeCosts.indexOf(Math.min(...lifetimeCosts)),
+    rows,
+  };
+}
@@ -0,0 +1,95 @@
+import type { MarketData, MortgageCalculation, MortgageResult } from "./types";
+import { MortgageCalculationSchema } from "./types";
+import { calculateMonthlyCosts } from "./mortgageCalculator";
+import { roundToCents } from "./paymentMath";
+import { MortgageRulesError } from "./cmhcInsurance";
+import { formatValidationIssues } from "./validation";
+import type { ValidationIssue } from "./validation";
+
+export type SensitivityField = "interestRate" | "amortizationYears" | "propertyValue" | "downPayment" | "grossAnnualIncome";
+
+// Inputs that can be put on an axis, with whole-number fields rounded before calculating
+export const sensitivityFields: Record<SensitivityField, { label: string; integer: boolean }> = {
+  interestRate: { label: "Interest Rate (%)", integer: false },
+  amortizationYears: { label: "Amortization (Years)", integer: true },
+  propertyValue: { label: "Purchase Price", integer: false },
+  downPayment: { label: "Down Payment", integer: false },
+  grossAnnualIncome: { label: "Household Income", integer: false },
+};
+
+export type SensitivityAxis = {
+  field: SensitivityField;
+  min: number;
+  max: number;
+  steps: number; // Values from min to max inclusive, evenly spaced
+};
+
+export type SensitivityCell =
+  | { valid: true; totalMonthlyCost: number; affordabilityRating: MortgageResult["affordabilityRating"] }
+  | { valid: false; issues: ValidationIssue[] };
+
+export type SensitivityGrid = {
+  rowValues: number[];
+  columnValues: number[];
+  cells: SensitivityCell[][]; // cells[row][column]
+};
+
+export const maxSensitivitySteps = 7; // Keeps the grid small enough to recalculate with every result
+
+// Evenly spaced values along an axis, rounded to the cent (or whole number for integer fields)
+export function getAxisValues(axis: SensitivityAxis): number[] {
+  const steps = Math.min(Math.max(Math.round(axis.steps), 1), maxSensitivitySteps);
+  const { integer } = sensitivityFields[axis.field];
+
+  const values = Array.from({ length: steps }, (_, index) => {
+    const value = steps === 1 ? axis.min : axis.min + ((axis.max - axis.min) * index) / (steps - 1);
+    return integer ? Math.round(value) : Math.round(value * 100) / 100;
+  });
+  return [...new Set(values)];
+}
+
+// Calculate one variation on the payment-and-ratios path, since the grid needs no schedules;
+// out-of-range inputs and broken mortgage rules become an invalid cell
+function calculateCell(data: MortgageCalculation, marketData: MarketData): SensitivityCell {
+  const parsed = MortgageCalculationSchema.safeParse(data);
+  if (!parsed.success) {
+    return { valid: false, issues: formatValidationIssues(parsed.error) };
+  }
+
+  try {
+    const costs = calculateMonthlyCosts(parsed.data, marketData);
+    return { valid: true, totalMonthlyCost: roundToCents(costs.totalMonthlyCost), affordabilityRating: costs.affordabilityRating };
+  } catch (err) {
+    if (err instanceof MortgageRulesError) {
+      return { valid: false, issues: err.issues };
+    }
+    throw err;
+  }
+}
+
+// Run the base scenario across every combination of two inputs
+export function runSensitivityAnalysis(
+  data: MortgageCalculation,
+  rows: SensitivityAxis,
+  columns: SensitivityAxis,
+  marketData: MarketData
+): SensitivityGrid {
+  const rowValues = getAxisValues(rows);
+  const columnValues = getAxisValues(columns);
+
+  // A tested price is taxed on itself rather than on the base scenario's assessment
+  const variesPrice = rows.field === "propertyValue" || columns.field === "propertyValue";
+
+  return {
+    rowValues,
+    columnValues,
+    cells: rowValues.map(rowValue =>
+      columnValues.map(columnValue => calculateCell({
+        ...data,
+        ...(variesPrice ? { assessedValue: undefined } : {}),
+        [rows.field]: rowValue,
+        [columns.field]: columnValue,
+      }, marketData))
+    ),
+  };
+}
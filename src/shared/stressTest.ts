@@ -0,0 +1,57 @@
+import type { MortgageCalculation, StressTestResult } from "./types";
+import { getPeriodicRate } from "./interestRates";
+import { calculateLoanAmountForPayment, calculatePeriodicPayment, roundToCents } from "./paymentMath";
+import {
+  calculateDebtServiceRatios,
+  cmhcRatioLimits,
+  getMonthlyDebtPayments,
+  getQualifyingAnnualIncome,
+  getQualifyingHousingCost,
+} from "./affordability";
+
+// OSFI Guideline B-20 minimum qualifying rate rules (percentages)
+export const stressTestRules = {
+  buffer: 2, // Added to the contract rate
+  floorRate: 5.25, // Qualifying rate is never lower than this
+};
+
+// Minimum qualifying rate: the greater of contract rate + buffer and the floor rate
+export function getQualifyingRate(contractRate: number): number {
+  return Math.round(Math.max(contractRate + stressTestRules.buffer, stressTestRules.floorRate) * 100) / 100;
+}
+
+// Re-run GDS/TDS at the qualifying rate and find the largest mortgage that still fits both limits
+export function evaluateStressTest(
+  data: MortgageCalculation,
+  loanAmount: number,
+  monthlyPropertyTax: number,
+  monthlyHeating: number
+): StressTestResult {
+  const qualifyingRate = getQualifyingRate(data.interestRate);
+  const periodicRate = getPeriodicRate(qualifyingRate, data.compounding, 12);
+  const numPayments = data.amortizationYears * 12;
+  const qualifyingPayment = calculatePeriodicPayment(loanAmount, periodicRate, numPayments);
+
+  const otherDebtPayments = getMonthlyDebtPayments(data);
+  const debtServiceRatios = calculateDebtServiceRatios(
+    getQualifyingHousingCost(qualifyingPayment, monthlyPropertyTax, monthlyHeating, data.monthlyCondoFees),
+    otherDebtPayments,
+    getQualifyingAnnualIncome(data)
+  );
+
+  // Room left for the mortgage payment under each limit once tax, heating, condo fees and debts are covered
+  const grossMonthlyIncome = getQualifyingAnnualIncome(data) / 12;
+  const nonMortgageHousingCost = getQualifyingHousingCost(0, monthlyPropertyTax, monthlyHeating, data.monthlyCondoFees);
+  const maxQualifyingPayment = Math.max(0, Math.min(
+    (grossMonthlyIncome * cmhcRatioLimits.gds) / 100 - nonMortgageHousingCost,
+    (grossMonthlyIncome * cmhcRatioLimits.tds) / 100 - nonMortgageHousingCost - otherDebtPayments
+  ));
+
+  return {
+    qualifyingRate,
+    qualifyingPayment: roundToCents(qualifyingPayment),
+    debtServiceRatios,
+    passes: debtServiceRatios.passesGds && debtServiceRatios.passesTds,
+    maxQualifyingMortgage: roundToCents(calculateLoanAmountForPayment(maxQualifyingPayment, periodicRate, numPayments)),
+  };
+}
@@ -1,47 +1,473 @@
 import z from "zod";
 
+export const CompoundingFrequencySchema = z.enum(["semi-annual", "monthly"]);
+
+export type CompoundingFrequency = z.infer<typeof CompoundingFrequencySchema>;
+
+export const PaymentFrequencySchema = z.enum([
+  "monthly",
+  "semi-monthly",
+  "bi-weekly",
+  "accelerated-bi-weekly",
+  "weekly",
+  "accelerated-weekly",
+]);
+
+export type PaymentFrequency = z.infer<typeof PaymentFrequencySchema>;
+
+export const PropertyTypeSchema = z.enum(["single-family", "condo", "townhouse", "multi-family"]);
+
+export type PropertyType = z.infer<typeof PropertyTypeSchema>;
+
+export const MunicipalitySchema = z.enum([
+  "winnipeg",
+  "steinbach",
+  "brandon",
+  "selkirk",
+  "east-st-paul",
+  "west-st-paul",
+  "headingley",
+]);
+
+export type Municipality = z.infer<typeof MunicipalitySchema>;
+
+export const MortgageInsurerSchema = z.enum(["cmhc", "sagen", "canada-guaranty"]);
+
+export type MortgageInsurer = z.infer<typeof MortgageInsurerSchema>;
+
+export const OneTimePrepaymentSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Prepayment date must be YYYY-MM-DD"),
+  amount: z.number().min(0, "Prepayment amount cannot be negative"),
+});
+
+export type OneTimePrepayment = z.infer<typeof OneTimePrepaymentSchema>;
+
+// Adjustable: the payment follows prime. Fixed: the payment stays put and rate moves change the interest/principal split
+export const VariablePaymentTypeSchema = z.enum(["adjustable", "fixed"]);
+
+export type VariablePaymentType = z.infer<typeof VariablePaymentTypeSchema>;
+
+export const PrimeRateChangeSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Rate change date must be YYYY-MM-DD"),
+  change: z.number().min(-5).max(5, "Prime rate moves must be between -5 and +5 points"), // Percentage points, e.g. -0.25
+});
+
+export type PrimeRateChange = z.infer<typeof PrimeRateChangeSchema>;
+
 export const MortgageCalculationSchema = z.object({
   propertyValue: z.number().min(1, "Property value must be greater than 0"),
   downPayment: z.number().min(0, "Down payment cannot be negative"),
   interestRate: z.number().min(0.1).max(20, "Interest rate must be between 0.1% and 20%"),
   amortizationYears: z.number().int().min(1).max(35, "Amortization must be between 1 and 35 years"),
-  propertyType: z.enum(["single-family", "condo", "townhouse", "multi-family"]),
+  termYears: z.number().int().min(1).max(10, "Term must be between 1 and 10 years").default(5),
+  municipality: MunicipalitySchema.default("winnipeg"),
+  // Property tax details; when omitted the purchase price, the municipality's first school division
+  // and its typical lot frontage are used
+  assessedValue: z.number().min(0, "Assessed value cannot be negative").optional(),
+  schoolDivision: z.string().optional(),
+  lotFrontage: z.number().min(0, "Lot frontage cannot be negative").optional(),
+  propertyType: PropertyTypeSchema,
   heatingType: z.enum(["gas", "electric", "oil", "geothermal"]),
   isFirstTimeBuyer: z.boolean(),
+  mortgageInsurer: MortgageInsurerSchema.default("cmhc"), // Default insurer for high-ratio mortgages
+  // Fixed-rate terms compound semi-annually; variable-rate terms compound monthly
+  compounding: CompoundingFrequencySchema.default("semi-annual"),
+  // Variable rates only: how the payment reacts to prime, and projected prime-rate moves by date
+  variablePaymentType: VariablePaymentTypeSchema.default("adjustable"),
+  primeRatePath: z.array(PrimeRateChangeSchema).default([]),
+  paymentFrequency: PaymentFrequencySchema.default("monthly"),
+  grossAnnualIncome: z.number().min(1, "Gross household income must be greater than 0"),
+  monthlyCondoFees: z.number().min(0, "Condo fees cannot be negative").default(0),
+  // Multi-family only: units in the building (including the owner's) and gross rent from the other units
+  numberOfUnits: z.number().int().min(2).max(4, "Multi-family properties must have 2 to 4 units").default(2),
+  monthlyRentalIncome: z.number().min(0, "Rental income cannot be negative").default(0),
+  monthlyCarLoanPayments: z.number().min(0, "Car loan payments cannot be negative").default(0),
+  monthlyCreditCardPayments: z.number().min(0, "Credit card payments cannot be negative").default(0),
+  monthlySupportPayments: z.number().min(0, "Support payments cannot be negative").default(0),
+  monthlyOtherDebtPayments: z.number().min(0, "Other debt payments cannot be negative").default(0),
+  annualLumpSumPrepayment: z.number().min(0, "Lump-sum prepayment cannot be negative").default(0),
+  prepaymentCapPercent: z.number().min(0).max(100, "Prepayment cap must be between 0% and 100%").default(15),
+  paymentIncreasePercent: z.number().min(0).max(100, "Payment increase must be between 0% and 100%").default(0),
+  oneTimePrepayments: z.array(OneTimePrepaymentSchema).default([]),
+  renewalRates: z.array(z.number().min(0).max(20, "Renewal rate must be between 0% and 20%")).default([]),
 });
 
 export type MortgageCalculation = z.infer<typeof MortgageCalculationSchema>;
 
+export const DebtServiceRatiosSchema = z.object({
+  gds: z.number(), // Gross Debt Service ratio (%)
+  tds: z.number(), // Total Debt Service ratio (%)
+  gdsLimit: z.number(),
+  tdsLimit: z.number(),
+  passesGds: z.boolean(),
+  passesTds: z.boolean(),
+  explanations: z.array(z.string()),
+});
+
+export type DebtServiceRatios = z.infer<typeof DebtServiceRatiosSchema>;
+
+export const StressTestResultSchema = z.object({
+  qualifyingRate: z.number(),
+  qualifyingPayment: z.number(),
+  debtServiceRatios: DebtServiceRatiosSchema,
+  passes: z.boolean(),
+  maxQualifyingMortgage: z.number(),
+});
+
+export type StressTestResult = z.infer<typeof StressTestResultSchema>;
+
+export const PropertyTaxBreakdownSchema = z.object({
+  assessedValue: z.number(),
+  residentialPortion: z.number(), // Percent of assessed value that is taxable
+  portionedAssessment: z.number(),
+  municipalMillRate: z.number(),
+  municipalTax: z.number(),
+  schoolDivision: z.string(), // Division name
+  educationMillRate: z.number(),
+  educationTax: z.number(),
+  lotFrontage: z.number(), // Feet
+  frontageLevy: z.number(),
+  educationPropertyTaxCredit: z.number(), // Subtracted from the bill
+  annualTax: z.number(), // Net of the credit
+});
+
+export type PropertyTaxBreakdown = z.infer<typeof PropertyTaxBreakdownSchema>;
+
+export const MortgageInsuranceSchema = z.object({
+  required: z.boolean(), // Only high-ratio (less than 20% down) mortgages are insured
+  insurer: MortgageInsurerSchema,
+  premiumRate: z.number(), // Percent of the mortgage amount, including any amortization surcharge
+  premium: z.number(), // Added to the loan
+  provincialSalesTax: z.number(), // Paid in cash at closing
+});
+
+export type MortgageInsurance = z.infer<typeof MortgageInsuranceSchema>;
+
+export const ClosingCostsSchema = z.object({
+  landTransferTax: z.number(),
+  titleRegistrationFees: z.number(),
+  legalFees: z.number(),
+  homeInspection: z.number(),
+  appraisal: z.number(),
+  propertyTaxAdjustment: z.number(), // Positive when the buyer reimburses the seller
+  totalClosingCosts: z.number(),
+  mortgageInsuranceTax: z.number(), // Manitoba sales tax on the insurance premium, paid in cash
+  cashNeededAtClosing: z.number(), // Down payment plus closing costs
+  homeBuyersTaxCredit: z.number(),
+  firstTimeBuyerNotes: z.array(z.string()),
+});
+
+export type ClosingCosts = z.infer<typeof ClosingCostsSchema>;
+
+export const PaymentFrequencyComparisonSchema = z.object({
+  frequency: PaymentFrequencySchema,
+  payment: z.number(),
+  totalInterest: z.number(),
+  payoffDate: z.string(), // ISO date (YYYY-MM-DD)
+  yearsToPayoff: z.number(),
+});
+
+export type PaymentFrequencyComparison = z.infer<typeof PaymentFrequencyComparisonSchema>;
+
+export const PrepaymentSummarySchema = z.object({
+  totalPrepaid: z.number(),
+  annualPrepaymentCap: z.number(), // Lender's yearly lump-sum limit in dollars
+  prepaymentReducedByCap: z.number(), // Requested lump-sum and one-time prepayments the cap cut
+  interestWithoutPrepayments: z.number(),
+  payoffDateWithoutPrepayments: z.string(), // ISO date (YYYY-MM-DD)
+  yearsWithoutPrepayments: z.number(),
+  yearsWithPrepayments: z.number(),
+  interestSaved: z.number(),
+  yearsSaved: z.number(),
+});
+
+export type PrepaymentSummary = z.infer<typeof PrepaymentSummarySchema>;
+
+export const RenewalScenarioSchema = z.object({
+  label: z.string(),
+  rate: z.number(),
+  payment: z.number(), // Regular payment at the chosen frequency after renewal
+  paymentChange: z.number(), // Difference from the regular payment during the current term, before any voluntary increase
+});
+
+export type RenewalScenario = z.infer<typeof RenewalScenarioSchema>;
+
+export const RenewalAnalysisSchema = z.object({
+  termYears: z.number(),
+  renewalDate: z.string(), // ISO date (YYYY-MM-DD)
+  balanceAtRenewal: z.number(),
+  remainingAmortizationYears: z.number(),
+  scenarios: z.array(RenewalScenarioSchema),
+});
+
+export type RenewalAnalysis = z.infer<typeof RenewalAnalysisSchema>;
+
+export const RateChangeEventSchema = z.object({
+  date: z.string(), // ISO date (YYYY-MM-DD) of the first payment at the new rate
+  rate: z.number(),
+  payment: z.number(), // Regular payment from that date
+});
+
+export type RateChangeEvent = z.infer<typeof RateChangeEventSchema>;
+
+export const VariableRateAnalysisSchema = z.object({
+  paymentType: VariablePaymentTypeSchema,
+  rateChanges: z.array(RateChangeEventSchema),
+  peakRate: z.number(),
+  peakPayment: z.number(),
+  // Fixed-payment structure only (null otherwise, or when the projected path never gets there)
+  triggerRate: z.number().nullable(), // Rate at which the payment only covers interest on the opening balance
+  triggerRateDate: z.string().nullable(),
+  negativeAmortizationDate: z.string().nullable(), // First payment that doesn't cover its interest
+  triggerPointBalance: z.number().nullable(), // Balance at which the lender raises the payment
+  triggerPointDate: z.string().nullable(),
+});
+
+export type VariableRateAnalysis = z.infer<typeof VariableRateAnalysisSchema>;
+
 export const MortgageResultSchema = z.object({
   monthlyPayment: z.number(),
+  municipality: MunicipalitySchema,
+  paymentFrequency: PaymentFrequencySchema,
+  regularPayment: z.number(), // Payment at the chosen frequency
+  payoffDate: z.string(), // ISO date (YYYY-MM-DD)
   principalAmount: z.number(),
   totalInterest: z.number(),
   monthlyPropertyTax: z.number(),
+  propertyTax: PropertyTaxBreakdownSchema,
   monthlyInsurance: z.number(),
   monthlyUtilities: z.number(),
+  monthlyCondoFees: z.number(),
+  monthlyRentalIncomeCounted: z.number(), // Rental income added to qualifying income
   totalMonthlyCost: z.number(),
   downPaymentPercent: z.number(),
-  cmhcInsurance: z.number(),
+  cmhcInsurance: z.number(), // Insurance premium added to the loan, whichever insurer is chosen
+  mortgageInsurance: MortgageInsuranceSchema,
+  effectiveAnnualRate: z.number(),
   affordabilityRating: z.enum(["excellent", "good", "fair", "poor"]),
+  debtServiceRatios: DebtServiceRatiosSchema,
+  stressTest: StressTestResultSchema,
+  closingCosts: ClosingCostsSchema,
+  frequencyComparison: z.array(PaymentFrequencyComparisonSchema),
+  prepaymentSummary: PrepaymentSummarySchema,
+  renewal: RenewalAnalysisSchema,
+  variableRate: VariableRateAnalysisSchema.nullable(), // Variable-rate mortgages only
   warnings: z.array(z.string()),
 });
 
 export type MortgageResult = z.infer<typeof MortgageResultSchema>;
 
-export const WinnipegPropertyDataSchema = z.object({
-  averagePropertyTaxRate: z.number(),
-  averageInsuranceRate: z.number(),
-  currentInterestRates: z.object({
-    fixed1Year: z.number(),
-    fixed5Year: z.number(),
-    variable: z.number(),
-  }),
+export const AmortizationPaymentSchema = z.object({
+  paymentNumber: z.number().int(),
+  year: z.number().int(), // Loan year, starting at 1
+  date: z.string(), // ISO date (YYYY-MM-DD)
+  rate: z.number(), // Annual rate charged for the period
+  payment: z.number(),
+  interest: z.number(),
+  principal: z.number(),
+  prepayment: z.number(),
+  balance: z.number(),
+});
+
+export type AmortizationPayment = z.infer<typeof AmortizationPaymentSchema>;
+
+export const AmortizationYearSummarySchema = z.object({
+  year: z.number().int(), // Loan year, starting at 1
+  totalPaid: z.number(),
+  totalInterest: z.number(),
+  totalPrincipal: z.number(),
+  totalPrepayment: z.number(),
+  endingBalance: z.number(),
+});
+
+export type AmortizationYearSummary = z.infer<typeof AmortizationYearSummarySchema>;
+
+export const AmortizationScheduleSchema = z.object({
+  payments: z.array(AmortizationPaymentSchema),
+  yearlySummaries: z.array(AmortizationYearSummarySchema),
+  prepaymentReducedByCap: z.number(), // Requested prepayments left unapplied because of the yearly cap
+});
+
+export type AmortizationSchedule = z.infer<typeof AmortizationScheduleSchema>;
+
+export const RentVsBuyAssumptionsSchema = z.object({
+  years: z.number().int().min(1).max(35, "Projection must be between 1 and 35 years").default(10),
+  monthlyRent: z.number().min(0, "Rent cannot be negative"),
+  rentIncreasePercent: z.number().min(0).max(20).default(2.5), // Yearly
+  homeAppreciationPercent: z.number().min(-10).max(20).default(3), // Yearly; tax and insurance rise with it
+  investmentReturnPercent: z.number().min(0).max(20).default(5), // Yearly return on invested savings
+  maintenancePercent: z.number().min(0).max(10).default(1), // Of home value per year
+  sellingCostPercent: z.number().min(0).max(15).default(5), // Realtor and legal fees deducted from home equity
+});
+
+export type RentVsBuyAssumptions = z.infer<typeof RentVsBuyAssumptionsSchema>;
+
+export const RentVsBuyYearSchema = z.object({
+  year: z.number().int(),
+  homeValue: z.number(),
+  mortgageBalance: z.number(),
+  ownerCost: z.number(), // Unrecoverable: interest, tax, insurance, utilities, condo fees and maintenance
+  rentPaid: z.number(),
+  ownerNetWorth: z.number(), // Equity after selling costs plus any invested savings
+  renterNetWorth: z.number(), // Invested down payment, closing costs and monthly savings
+});
+
+export type RentVsBuyYear = z.infer<typeof RentVsBuyYearSchema>;
+
+export const RentVsBuyAnalysisSchema = z.object({
+  initialInvestment: z.number(), // Down payment plus closing costs
+  years: z.array(RentVsBuyYearSchema),
+  breakEvenYear: z.number().int().nullable(), // First year owning leaves the buyer ahead; null if never within the projection
+  totalOwnerCost: z.number(),
+  totalRentPaid: z.number(),
+});
+
+export type RentVsBuyAnalysis = z.infer<typeof RentVsBuyAnalysisSchema>;
+
+export const PostedRateSchema = z.object({
+  termYears: z.number().int().min(1).max(10, "Posted rate terms must be between 1 and 10 years"),
+  rate: z.number().min(0).max(20, "Posted rate must be between 0% and 20%"),
+});
+
+export type PostedRate = z.infer<typeof PostedRateSchema>;
+
+export const RefinanceCalculationSchema = z.object({
+  currentBalance: z.number().min(1, "Current balance must be greater than 0"),
+  contractRate: z.number().min(0.1).max(20, "Contract rate must be between 0.1% and 20%"),
+  compounding: CompoundingFrequencySchema.default("semi-annual"), // Variable-rate mortgages only pay 3 months' interest
+  remainingTermMonths: z.number().int().min(1).max(120, "Remaining term must be between 1 and 120 months"),
+  remainingAmortizationYears: z.number().min(1).max(35, "Remaining amortization must be between 1 and 35 years"),
+  paymentFrequency: PaymentFrequencySchema.default("monthly"),
+  // Posted vs discounted IRD: the lender's posted rate for the original term when the mortgage was signed,
+  // and its posted rates today
+  postedRateAtSigning: z.number().min(0).max(20, "Posted rate must be between 0% and 20%"),
+  postedRates: z.array(PostedRateSchema).min(1, "Enter at least one current posted rate"),
+  newRate: z.number().min(0.1).max(20, "New rate must be between 0.1% and 20%"),
+  newCompounding: CompoundingFrequencySchema.default("semi-annual"),
+  switchingCosts: z.number().min(0, "Switching costs cannot be negative").default(0), // Discharge, legal and appraisal fees
+});
+
+export type RefinanceCalculation = z.infer<typeof RefinanceCalculationSchema>;
+
+export const RefinanceResultSchema = z.object({
+  currentPayment: z.number(), // Regular payment at the chosen frequency
+  threeMonthsInterestPenalty: z.number(),
+  postedRateDiscount: z.number(), // Percentage points below the posted rate the borrower was given
+  comparisonTermYears: z.number().nullable(), // Posted term closest to the remaining term; null for variable rates
+  comparisonRate: z.number().nullable(), // That posted rate less the original discount
+  irdPenalty: z.number().nullable(), // Fixed rates only
+  penalty: z.number(), // The greater of the two for fixed rates
+  penaltyMethod: z.enum(["three-months-interest", "ird"]),
+  totalCost: z.number(), // Penalty plus switching costs
+  newPayment: z.number(),
+  paymentChange: z.number(),
+  interestSavedOverTerm: z.number(), // Interest saved until the current term would have ended
+  netSavingsOverTerm: z.number(),
+  breakEvenMonths: z.number().nullable(), // Months of interest savings to recover the cost; null if never
+});
+
+export type RefinanceResult = z.infer<typeof RefinanceResultSchema>;
+
+export const CreateScenarioSchema = z.object({
+  name: z.string().trim().min(1, "Scenario name is required").max(100, "Scenario name must be 100 characters or fewer"),
+  input: MortgageCalculationSchema,
+});
+
+export type CreateScenario = z.infer<typeof CreateScenarioSchema>;
+
+export const ScenarioSummarySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  createdAt: z.string(),
+});
+
+export type ScenarioSummary = z.infer<typeof ScenarioSummarySchema>;
+
+export const SavedScenarioSchema = ScenarioSummarySchema.extend({
+  input: MortgageCalculationSchema,
+  result: MortgageResultSchema,
+});
+
+export type SavedScenario = z.infer<typeof SavedScenarioSchema>;
+
+// Downloadable calculation file; bump schemaVersion when the layout changes incompatibly
+export const CalculationExportSchema = z.object({
+  schemaVersion: z.literal(1, { errorMap: () => ({ message: "Unsupported export version; expected 1" }) }),
+  exportedAt: z.string(), // ISO timestamp
+  input: MortgageCalculationSchema,
+  result: MortgageResultSchema, // Snapshot at export time; imports recalculate from the input
+});
+
+export type CalculationExport = z.infer<typeof CalculationExportSchema>;
+
+// Batch runs take up to 100 exported files (or bare inputs) in one request
+export const BatchCalculationSchema = z.array(z.unknown()).min(1, "Provide at least one calculation").max(100, "Batches are limited to 100 calculations");
+
+export const SchoolDivisionSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  millRate: z.number(), // Special levy, dollars per $1,000 of portioned assessment
+});
+
+export type SchoolDivision = z.infer<typeof SchoolDivisionSchema>;
+
+export const MunicipalityProfileSchema = z.object({
+  name: z.string(),
+  municipalMillRate: z.number(), // Dollars per $1,000 of portioned assessment
+  schoolDivisions: z.array(SchoolDivisionSchema).min(1), // The first is the default
+  residentialPortion: z.number(), // Percent of assessed value that is taxable for residential property
+  frontageLevyPerFoot: z.number(), // Annual charge per foot of lot frontage; 0 where none is levied
+  typicalLotFrontage: z.number(), // Feet
+  insuranceMultiplier: z.number(), // Applied to the property-type insurance rate (e.g. rural fire protection)
   utilityEstimates: z.object({
     gas: z.number(),
     electric: z.number(),
     oil: z.number(),
     geothermal: z.number(),
   }),
+  // Typical one-time costs for a purchase in the municipality
+  closingFees: z.object({
+    legalFees: z.number(), // Lawyer's fees and disbursements
+    homeInspection: z.number(),
+    appraisal: z.number(),
+  }),
+  propertyTaxDueDate: z.string().regex(/^\d{2}-\d{2}$/, "Property tax due date must be MM-DD"), // Yearly due date of the tax bill
+});
+
+export type MunicipalityProfile = z.infer<typeof MunicipalityProfileSchema>;
+
+export const MarketDataSchema = z.object({
+  effectiveDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Effective date must be YYYY-MM-DD"), // Day the figures take effect
+  propertyTypeProfiles: z.object({
+    "single-family": z.object({ insuranceRate: z.number(), utilityMultiplier: z.number() }),
+    condo: z.object({ insuranceRate: z.number(), utilityMultiplier: z.number() }),
+    townhouse: z.object({ insuranceRate: z.number(), utilityMultiplier: z.number() }),
+    "multi-family": z.object({ insuranceRate: z.number(), utilityMultiplier: z.number() }),
+  }),
+  currentInterestRates: z.object({
+    fixed1Year: z.number(),
+    fixed5Year: z.number(),
+    variable: z.number(),
+  }),
+  educationPropertyTaxCreditMax: z.number(), // Provincial credit against school taxes on a principal residence
+  municipalities: z.object({
+    winnipeg: MunicipalityProfileSchema,
+    steinbach: MunicipalityProfileSchema,
+    brandon: MunicipalityProfileSchema,
+    selkirk: MunicipalityProfileSchema,
+    "east-st-paul": MunicipalityProfileSchema,
+    "west-st-paul": MunicipalityProfileSchema,
+    headingley: MunicipalityProfileSchema,
+  }),
+});
+
+export type MarketData = z.infer<typeof MarketDataSchema>;
+
+// A published market dataset, without its figures
+export const MarketDataVersionSchema = z.object({
+  version: z.number().int(),
+  effectiveDate: z.string(),
+  publishedAt: z.string(),
 });
 
-export type WinnipegPropertyData = z.infer<typeof WinnipegPropertyDataSchema>;
+export type MarketDataVersion = z.infer<typeof MarketDataVersionSchema>;
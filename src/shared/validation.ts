@@ -0,0 +1,24 @@
+import { ZodIssueCode, ZodParsedType } from "zod";
+import type { ZodError, ZodErrorMap } from "zod";
+
+export type ValidationIssue = {
+  field: string;
+  message: string;
+};
+
+// Flatten zod issues into field/message pairs (nested fields joined with dots, e.g. "oneTimePrepayments.0.date")
+export function formatValidationIssues(error: ZodError): ValidationIssue[] {
+  return error.issues.map(issue => ({
+    field: issue.path.join("."),
+    message: issue.message,
+  }));
+}
+
+// Messages for number inputs left empty or holding something other than a number
+export const inputErrorMap: ZodErrorMap = (issue, ctx) => {
+  if (issue.code === ZodIssueCode.invalid_type && issue.expected === ZodParsedType.number) {
+    const empty = issue.received === ZodParsedType.null || issue.received === ZodParsedType.undefined;
+    return { message: empty ? "This field is required" : "Enter a number" };
+  }
+  return { message: ctx.defaultError };
+};
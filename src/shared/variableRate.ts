@@ -0,0 +1,71 @@
+import type { AmortizationSchedule, MortgageCalculation, RateChangeEvent, VariableRateAnalysis } from "./types";
+import { paymentFrequencies } from "./paymentFrequency";
+import { roundToCents } from "./paymentMath";
+
+export const variableRateRules = {
+  // Once a fixed-payment mortgage's balance grows past this share of the original loan,
+  // the lender raises the payment back onto the original amortization
+  triggerPointPercent: 105,
+};
+
+// Variable-rate mortgages are the ones quoted with monthly compounding
+export function isVariableRate(data: MortgageCalculation): boolean {
+  return data.compounding === "monthly";
+}
+
+// Contract rate in effect on a payment date: the quoted rate plus every projected prime move
+// after the mortgage starts and on or before that date. Fixed rates never move.
+export function getRateOnDate(data: MortgageCalculation, date: string, startDate: string): number {
+  if (!isVariableRate(data)) return data.interestRate;
+
+  const change = data.primeRatePath
+    .filter(move => move.date > startDate && move.date <= date)
+    .reduce((sum, move) => sum + move.change, 0);
+
+  return Math.max(Math.round((data.interestRate + change) * 100) / 100, 0);
+}
+
+// Nominal annual rate (monthly compounding) at which a periodic payment only covers interest on the balance
+export function getTriggerRate(payment: number, balance: number, paymentsPerYear: number): number {
+  const periodicRate = payment / balance;
+  const monthlyRate = Math.pow(1 + periodicRate, paymentsPerYear / 12) - 1;
+  return Math.round(monthlyRate * 12 * 10000) / 100;
+}
+
+// Rate moves, payment changes and trigger events along a variable-rate schedule. Returns null for fixed rates.
+export function analyzeVariableRate(data: MortgageCalculation, schedule: AmortizationSchedule): VariableRateAnalysis | null {
+  const { payments } = schedule;
+  const firstPayment = payments[0];
+  if (!isVariableRate(data) || !firstPayment) return null;
+
+  const rateChanges: RateChangeEvent[] = [];
+  payments.forEach((payment, index) => {
+    if (index > 0 && payment.rate !== payments[index - 1].rate) {
+      rateChanges.push({ date: payment.date, rate: payment.rate, payment: payment.payment });
+    }
+  });
+
+  const openingBalance = roundToCents(firstPayment.balance + firstPayment.principal + firstPayment.prepayment);
+  const isFixedPayment = data.variablePaymentType === "fixed";
+  const triggerRate = isFixedPayment
+    ? getTriggerRate(firstPayment.payment, openingBalance, paymentFrequencies[data.paymentFrequency].paymentsPerYear)
+    : null;
+  const triggerPointBalance = isFixedPayment
+    ? roundToCents((openingBalance * variableRateRules.triggerPointPercent) / 100)
+    : null;
+
+  return {
+    paymentType: data.variablePaymentType,
+    rateChanges,
+    peakRate: Math.max(...payments.map(payment => payment.rate)),
+    // The final payment settles any leftover balance, so it doesn't count as a regular payment
+    peakPayment: Math.max(...payments.slice(0, -1).map(payment => payment.payment), firstPayment.payment),
+    triggerRate,
+    triggerRateDate: triggerRate === null ? null : payments.find(payment => payment.rate >= triggerRate)?.date ?? null,
+    negativeAmortizationDate: isFixedPayment ? payments.find(payment => payment.principal < 0)?.date ?? null : null,
+    triggerPointBalance,
+    triggerPointDate: triggerPointBalance === null
+      ? null
+      : payments.find(payment => payment.balance > triggerPointBalance)?.date ?? null,
+  };
+}
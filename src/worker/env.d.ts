@@ -0,0 +1,5 @@
+// Secrets are not listed in wrangler.jsonc, so the generated worker-configuration.d.ts only includes them
+// when .dev.vars happens to exist; declare them here instead
+interface Env {
+  ADMIN_TOKEN: string; // Set with `npx wrangler secret put ADMIN_TOKEN`; the admin API stays closed without it
+}
@@ -0,0 +1,75 @@
+import { Hono } from "hono";
+import { BatchCalculationSchema, MortgageCalculationSchema, MortgageResultSchema } from "@/shared/types";
+import { calculateMortgage } from "@/shared/mortgageCalculator";
+import { MortgageRulesError } from "@/shared/cmhcInsurance";
+import { parseCalculationImport } from "@/shared/calculationExport";
+import { invalidJsonError, mortgageRulesError, readJsonBody, validationError } from "./responses";
+import scenarios from "./scenarios";
+import marketData, { getCurrentMarketData } from "./marketData";
+
+const app = new Hono<{ Bindings: Env }>();
+
+// Rule violations surface as 400s from any route that runs a calculation
+app.onError((err, c) => {
+  if (err instanceof MortgageRulesError) {
+    return mortgageRulesError(c, err);
+  }
+  console.error(err);
+  return c.json({ error: "Internal server error" }, 500);
+});
+
+app.post("/api/calculate", async (c) => {
+  const body = await readJsonBody(c);
+  if (body === undefined) {
+    return invalidJsonError(c);
+  }
+
+  const parsed = MortgageCalculationSchema.safeParse(body);
+  if (!parsed.success) {
+    return validationError(c, parsed.error);
+  }
+
+  const result = calculateMortgage(parsed.data, await getCurrentMarketData(c.env.DB));
+  return c.json(MortgageResultSchema.parse(result));
+});
+
+// Run many exported calculations at once; each item succeeds or fails on its own
+app.post("/api/calculate/batch", async (c) => {
+  const body = await readJsonBody(c);
+  if (body === undefined) {
+    return invalidJsonError(c);
+  }
+
+  const parsed = BatchCalculationSchema.safeParse(body);
+  if (!parsed.success) {
+    return validationError(c, parsed.error);
+  }
+
+  const marketData = await getCurrentMarketData(c.env.DB);
+  const results = parsed.data.map((item, index) => {
+    const calculation = parseCalculationImport(item);
+    if (!calculation.success) {
+      return { index, error: "Invalid request", issues: calculation.issues };
+    }
+
+    try {
+      return { index, input: calculation.input, result: calculateMortgage(calculation.input, marketData) };
+    } catch (err) {
+      if (err instanceof MortgageRulesError) {
+        return { index, error: "Mortgage rules not met", issues: err.issues };
+      }
+      throw err;
+    }
+  });
+
+  return c.json(results);
+});
+
+app.get("/api/rates", async (c) => {
+  return c.json(await getCurrentMarketData(c.env.DB));
+});
+
+app.route("/api/scenarios", scenarios);
+app.route("/api/admin/market-data", marketData);
+
+export default app;
@@ -0,0 +1,97 @@
+import { Hono } from "hono";
+import { MarketDataSchema } from "@/shared/types";
+import type { MarketData, MarketDataVersion } from "@/shared/types";
+import { defaultMarketData } from "@/shared/marketData";
+import { invalidJsonError, readJsonBody, validationError } from "./responses";
+
+type MarketDataRow = {
+  version: number;
+  effective_date: string;
+  data: string;
+  published_at: string;
+};
+
+function toMarketDataVersion(row: Omit<MarketDataRow, "data">): MarketDataVersion {
+  return { version: row.version, effectiveDate: row.effective_date, publishedAt: row.published_at };
+}
+
+// Newest published dataset already in effect, or the bundled defaults when there is none
+export async function getCurrentMarketData(db: D1Database): Promise<MarketData> {
+  const row = await db.prepare(
+    "SELECT data FROM market_data WHERE effective_date <= date('now') ORDER BY effective_date DESC, version DESC LIMIT 1"
+  ).first<Pick<MarketDataRow, "data">>();
+
+  if (!row) {
+    return defaultMarketData;
+  }
+
+  // Datasets published before a schema change no longer validate; fall back until a new one is published
+  const parsed = MarketDataSchema.safeParse(JSON.parse(row.data));
+  if (!parsed.success) {
+    console.error("Published market data does not match the current schema", parsed.error.issues);
+    return defaultMarketData;
+  }
+  return parsed.data;
+}
+
+// Constant-time comparison; both sides are hashed first so timingSafeEqual gets equal-length inputs
+async function tokensMatch(provided: string, expected: string): Promise<boolean> {
+  const encoder = new TextEncoder();
+  const [providedDigest, expectedDigest] = await Promise.all([
+    crypto.subtle.digest("SHA-256", encoder.encode(provided)),
+    crypto.subtle.digest("SHA-256", encoder.encode(expected)),
+  ]);
+  return crypto.subtle.timingSafeEqual(providedDigest, expectedDigest);
+}
+
+// Admin routes for publishing market data, authorized with the ADMIN_TOKEN secret
+const marketData = new Hono<{ Bindings: Env }>();
+
+marketData.use("*", async (c, next) => {
+  // Fail closed: without a configured secret no token is accepted
+  const adminToken = c.env.ADMIN_TOKEN;
+  if (!adminToken?.trim()) {
+    return c.json({ error: "Admin API is not configured" }, 503);
+  }
+  const authorization = c.req.header("Authorization") ?? "";
+  if (!(await tokensMatch(authorization, `Bearer ${adminToken}`))) {
+    return c.json({ error: "Unauthorized" }, 401);
+  }
+  await next();
+});
+
+// Every published version, newest first
+marketData.get("/", async (c) => {
+  const { results } = await c.env.DB.prepare(
+    "SELECT version, effective_date, published_at FROM market_data ORDER BY effective_date DESC, version DESC"
+  ).all<Omit<MarketDataRow, "data">>();
+
+  return c.json(results.map(toMarketDataVersion));
+});
+
+// Publish a new dataset; it takes effect on its effective date
+marketData.post("/", async (c) => {
+  const body = await readJsonBody(c);
+  if (body === undefined) {
+    return invalidJsonError(c);
+  }
+
+  const parsed = MarketDataSchema.safeParse(body);
+  if (!parsed.success) {
+    return validationError(c, parsed.error);
+  }
+
+  const row = await c.env.DB.prepare(
+    "INSERT INTO market_data (effective_date, data) VALUES (?, ?) RETURNING version, effective_date, published_at"
+  )
+    .bind(parsed.data.effectiveDate, JSON.stringify(parsed.data))
+    .first<Omit<MarketDataRow, "data">>();
+
+  if (!row) {
+    return c.json({ error: "Failed to publish market data" }, 500);
+  }
+
+  return c.json(toMarketDataVersion(row), 201);
+});
+
+export default marketData;
@@ -0,0 +1,29 @@
+import type { Context } from "hono";
+import type { ZodError } from "zod";
+import { formatValidationIssues } from "@/shared/validation";
+import type { ValidationIssue } from "@/shared/validation";
+import type { MortgageRulesError } from "@/shared/cmhcInsurance";
+
+// Read a JSON request body, or undefined when it is missing or malformed
+export async function readJsonBody(c: Context): Promise<unknown> {
+  return c.req.json().catch(() => undefined);
+}
+
+export function invalidJsonError(c: Context) {
+  return c.json({ error: "Request body must be valid JSON", issues: [] }, 400);
+}
+
+// Structured 400 response listing every field that failed validation
+export function validationError(c: Context, error: ZodError) {
+  return c.json({ error: "Invalid request", issues: formatValidationIssues(error) }, 400);
+}
+
+// 400 response for inputs that parse but break mortgage insurance rules
+export function mortgageRulesError(c: Context, error: MortgageRulesError) {
+  return c.json({ error: "Mortgage rules not met", issues: error.issues }, 400);
+}
+
+// 422 response for stored data that no longer passes the current schemas or rules
+export function storedDataError(c: Context, error: string, issues: ValidationIssue[]) {
+  return c.json({ error, issues }, 422);
+}
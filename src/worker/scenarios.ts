@@ -0,0 +1,158 @@
+import { Hono } from "hono";
+import type { Context } from "hono";
+import { CreateScenarioSchema, MortgageCalculationSchema, MortgageResultSchema } from "@/shared/types";
+import type { SavedScenario, ScenarioSummary } from "@/shared/types";
+import { calculateMortgage } from "@/shared/mortgageCalculator";
+import { MortgageRulesError } from "@/shared/cmhcInsurance";
+import { formatValidationIssues } from "@/shared/validation";
+import type { ValidationIssue } from "@/shared/validation";
+import { invalidJsonError, readJsonBody, storedDataError, validationError } from "./responses";
+import { getCurrentMarketData } from "./marketData";
+
+type ScenarioRow = {
+  id: string;
+  name: string;
+  input: string;
+  result: string;
+  owner_token_hash: string | null;
+  created_at: string;
+};
+
+type StoredScenario =
+  | { success: true; scenario: SavedScenario }
+  | { success: false; issues: ValidationIssue[] };
+
+// Re-parse the input so fields added since it was saved pick up their defaults. The result is a snapshot
+// from save time; one that no longer matches the result schema is recalculated from the input.
+// A row whose input no longer validates (e.g. after a limit was tightened) is reported with its issues.
+async function toSavedScenario(db: D1Database, row: ScenarioRow): Promise<StoredScenario> {
+  const input = MortgageCalculationSchema.safeParse(JSON.parse(row.input));
+  if (!input.success) {
+    return { success: false, issues: formatValidationIssues(input.error) };
+  }
+
+  const storedResult = MortgageResultSchema.safeParse(JSON.parse(row.result));
+  let result = storedResult.success ? storedResult.data : null;
+  if (!result) {
+    try {
+      result = calculateMortgage(input.data, await getCurrentMarketData(db));
+    } catch (err) {
+      if (err instanceof MortgageRulesError) return { success: false, issues: err.issues };
+      throw err;
+    }
+  }
+
+  return {
+    success: true,
+    scenario: { id: row.id, name: row.name, createdAt: row.created_at, input: input.data, result },
+  };
+}
+
+// Header carrying the random token each browser generates to identify the scenarios it saved
+const ownerTokenHeader = "X-Scenario-Owner";
+
+// Only a hash of the owner token is stored, so the database alone cannot be used to delete scenarios
+async function hashOwnerToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token));
+  return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, "0")).join("");
+}
+
+// Hash of the request's owner token, or null when it is missing or implausibly short
+async function getOwnerTokenHash(c: Context): Promise<string | null> {
+  const token = c.req.header(ownerTokenHeader);
+  return token && token.length >= 32 ? hashOwnerToken(token) : null;
+}
+
+function missingOwnerTokenError(c: Context) {
+  return c.json({ error: `Missing or invalid ${ownerTokenHeader} header` }, 401);
+}
+
+const scenarios = new Hono<{ Bindings: Env }>();
+
+// Save a named scenario with a snapshot of its result, owned by the token that saved it
+scenarios.post("/", async (c) => {
+  const ownerTokenHash = await getOwnerTokenHash(c);
+  if (!ownerTokenHash) {
+    return missingOwnerTokenError(c);
+  }
+
+  const body = await readJsonBody(c);
+  if (body === undefined) {
+    return invalidJsonError(c);
+  }
+
+  const parsed = CreateScenarioSchema.safeParse(body);
+  if (!parsed.success) {
+    return validationError(c, parsed.error);
+  }
+
+  const id = crypto.randomUUID();
+  const result = calculateMortgage(parsed.data.input, await getCurrentMarketData(c.env.DB));
+
+  const row = await c.env.DB.prepare(
+    "INSERT INTO scenarios (id, name, input, result, owner_token_hash) VALUES (?, ?, ?, ?, ?) RETURNING id, name, created_at"
+  )
+    .bind(id, parsed.data.name, JSON.stringify(parsed.data.input), JSON.stringify(result), ownerTokenHash)
+    .first<Pick<ScenarioRow, "id" | "name" | "created_at">>();
+
+  if (!row) {
+    return c.json({ error: "Failed to save scenario" }, 500);
+  }
+
+  const scenario: SavedScenario = { id: row.id, name: row.name, createdAt: row.created_at, input: parsed.data.input, result };
+  return c.json(scenario, 201);
+});
+
+// The caller's most recent scenarios, without their input and result payloads
+scenarios.get("/", async (c) => {
+  const ownerTokenHash = await getOwnerTokenHash(c);
+  if (!ownerTokenHash) {
+    return missingOwnerTokenError(c);
+  }
+
+  const { results } = await c.env.DB.prepare(
+    "SELECT id, name, created_at FROM scenarios WHERE owner_token_hash = ? ORDER BY created_at DESC LIMIT 50"
+  )
+    .bind(ownerTokenHash)
+    .all<Pick<ScenarioRow, "id" | "name" | "created_at">>();
+
+  const summaries: ScenarioSummary[] = results.map(row => ({ id: row.id, name: row.name, createdAt: row.created_at }));
+  return c.json(summaries);
+});
+
+// Anyone with the link can open a scenario
+scenarios.get("/:id", async (c) => {
+  const row = await c.env.DB.prepare("SELECT * FROM scenarios WHERE id = ?")
+    .bind(c.req.param("id"))
+    .first<ScenarioRow>();
+
+  if (!row) {
+    return c.json({ error: "Scenario not found" }, 404);
+  }
+
+  const stored = await toSavedScenario(c.env.DB, row);
+  if (!stored.success) {
+    return storedDataError(c, "This saved scenario no longer passes the calculator's validation", stored.issues);
+  }
+  return c.json(stored.scenario);
+});
+
+// Only the owner can delete; someone else's scenario is reported as not found
+scenarios.delete("/:id", async (c) => {
+  const ownerTokenHash = await getOwnerTokenHash(c);
+  if (!ownerTokenHash) {
+    return missingOwnerTokenError(c);
+  }
+
+  const { meta } = await c.env.DB.prepare("DELETE FROM scenarios WHERE id = ? AND owner_token_hash = ?")
+    .bind(c.req.param("id"), ownerTokenHash)
+    .run();
+
+  if (meta.changes === 0) {
+    return c.json({ error: "Scenario not found" }, 404);
+  }
+
+  return c.body(null, 204);
+});
+
+export default scenarios;